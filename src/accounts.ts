@@ -0,0 +1,241 @@
+// 00bx Kiro Gateway - Multi-Account Credential Pool
+// Rotates between several Kiro accounts when one is throttled or out of quota.
+
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { existsSync, readFileSync } from "node:fs";
+import { KiroAuthManager } from "./auth.js";
+import type { KiroAuthOptions, KiroCredentials } from "./auth.js";
+import type { CredentialSourceReport } from "./credentials.js";
+import { AccountRateLimiter } from "./rate-limit.js";
+import type { KiroRateLimitPolicy } from "./settings.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface PooledAccount {
+  name: string;
+  auth: KiroAuthManager;
+}
+
+export interface AccountHealth {
+  name: string;
+  healthy: boolean;
+  /** Unix ms until which the account is skipped, or null */
+  cooldownUntil: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  requestCount: number;
+  /** Access token expiry (unix ms), or null if not fetched yet */
+  tokenExpiresAt: number | null;
+  /** Where the account's credentials came from ("env", "kiro-cli", "credentials", ...) */
+  credentialSource: string | null;
+  /** Requests sent and not yet fully read */
+  inFlight: number;
+  /** Requests waiting for the rate limiter */
+  queued: number;
+  /** How long the most recent request waited in the rate limiter */
+  lastQueueWaitMs: number;
+  /** Unix ms until which the circuit breaker refuses requests, or null */
+  circuitOpenUntil: number | null;
+}
+
+interface AccountsFile {
+  accounts?: Array<KiroCredentials & { name?: string }>;
+}
+
+interface AccountState {
+  account: PooledAccount;
+  cooldownUntil: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  requestCount: number;
+  limiter: AccountRateLimiter;
+}
+
+// ─── Config file ─────────────────────────────────────────────────────────────
+
+export function getDefaultAccountsPath(): string {
+  return process.env.KIRO_GATEWAY_ACCOUNTS_FILE
+    ?? join(homedir(), ".config", "00bx-kiro-gateway", "accounts.json");
+}
+
+function readAccountsFile(path: string): Array<KiroCredentials & { name?: string }> {
+  if (!existsSync(path)) return [];
+  const data = JSON.parse(readFileSync(path, "utf-8")) as AccountsFile;
+  return (data.accounts ?? []).filter((a) => typeof a.refreshToken === "string" && a.refreshToken);
+}
+
+// ─── Account pool ────────────────────────────────────────────────────────────
+
+export class KiroAccountPool {
+  private states: AccountState[];
+  private currentIndex = 0;
+  private credentialReport: CredentialSourceReport[] = [];
+
+  constructor(accounts: PooledAccount[], rateLimit: KiroRateLimitPolicy | false = {}) {
+    if (accounts.length === 0) {
+      throw new Error("Kiro account pool needs at least one account");
+    }
+    this.states = accounts.map((account) => ({
+      account,
+      cooldownUntil: null,
+      lastError: null,
+      lastErrorAt: null,
+      requestCount: 0,
+      limiter: new AccountRateLimiter(account.name, rateLimit),
+    }));
+  }
+
+  /**
+   * Load the account found by the credential-source chain (env, credentials
+   * file, SSO cache, kiro-cli DB) plus any accounts from the accounts file.
+   * The chain's account comes first and is skipped if no source has a token.
+   */
+  static load(
+    options: Omit<KiroAuthOptions, "credentials"> & {
+      accountsPath?: string;
+      rateLimit?: KiroRateLimitPolicy | false;
+    } = {},
+  ): KiroAccountPool {
+    const { accountsPath, rateLimit, ...authOptions } = options;
+    const accounts: PooledAccount[] = [];
+
+    const dbAuth = new KiroAuthManager(authOptions);
+    if (dbAuth.hasCredentials()) {
+      accounts.push({ name: dbAuth.getCredentialSource() ?? "kiro-cli", auth: dbAuth });
+    }
+
+    const fileAccounts = readAccountsFile(accountsPath ?? getDefaultAccountsPath());
+    fileAccounts.forEach((creds, i) => {
+      accounts.push({
+        name: creds.name ?? `account-${i + 1}`,
+        auth: new KiroAuthManager({ ...authOptions, credentials: creds }),
+      });
+    });
+
+    // Nothing configured — keep the DB manager so errors surface on first request
+    if (accounts.length === 0) accounts.push({ name: "kiro-cli", auth: dbAuth });
+
+    const pool = new KiroAccountPool(accounts, rateLimit);
+    pool.credentialReport = dbAuth.getCredentialReport();
+    return pool;
+  }
+
+  static fromAuthManager(
+    auth: KiroAuthManager,
+    name = "default",
+    rateLimit?: KiroRateLimitPolicy | false,
+  ): KiroAccountPool {
+    const pool = new KiroAccountPool([{ name, auth }], rateLimit);
+    pool.credentialReport = auth.getCredentialReport();
+    return pool;
+  }
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  /** All accounts, in rotation order */
+  get accounts(): PooledAccount[] {
+    return this.states.map((s) => s.account);
+  }
+
+  private isCoolingDown(state: AccountState, now = Date.now()): boolean {
+    return state.cooldownUntil !== null && state.cooldownUntil > now;
+  }
+
+  /**
+   * The account to use for the next request: the current one while healthy,
+   * otherwise the next healthy one. If every account is cooling down, the one
+   * whose cooldown ends first.
+   */
+  current(): PooledAccount {
+    const now = Date.now();
+    for (let i = 0; i < this.states.length; i++) {
+      const index = (this.currentIndex + i) % this.states.length;
+      if (!this.isCoolingDown(this.states[index], now)) {
+        this.currentIndex = index;
+        return this.states[index].account;
+      }
+    }
+
+    let soonest = 0;
+    for (let i = 1; i < this.states.length; i++) {
+      if (this.states[i].cooldownUntil! < this.states[soonest].cooldownUntil!) soonest = i;
+    }
+    this.currentIndex = soonest;
+    return this.states[soonest].account;
+  }
+
+  /** Whether any account other than `account` is available right now */
+  hasHealthyAlternative(account: PooledAccount): boolean {
+    const now = Date.now();
+    return this.states.some((s) => s.account !== account && !this.isCoolingDown(s, now));
+  }
+
+  private stateOf(account: PooledAccount): AccountState | undefined {
+    return this.states.find((s) => s.account === account);
+  }
+
+  /** The account's concurrency queue, rate limiter and circuit breaker */
+  limiterFor(account: PooledAccount): AccountRateLimiter {
+    const state = this.stateOf(account);
+    if (!state) throw new Error(`Account "${account.name}" is not in this pool`);
+    return state.limiter;
+  }
+
+  recordRequest(account: PooledAccount): void {
+    const state = this.stateOf(account);
+    if (state) state.requestCount++;
+  }
+
+  recordSuccess(account: PooledAccount): void {
+    const state = this.stateOf(account);
+    if (state) state.cooldownUntil = null;
+  }
+
+  recordError(account: PooledAccount, message: string): void {
+    const state = this.stateOf(account);
+    if (!state) return;
+    state.lastError = message;
+    state.lastErrorAt = Date.now();
+  }
+
+  /** Put an account on cooldown (throttled or out of quota) and move past it */
+  markExhausted(account: PooledAccount, message: string, cooldownMs: number): void {
+    const state = this.stateOf(account);
+    if (!state) return;
+    this.recordError(account, message);
+    state.cooldownUntil = Date.now() + cooldownMs;
+  }
+
+  getProfileArn(): string | null {
+    return this.current().auth.getProfileArn();
+  }
+
+  getHealth(): AccountHealth[] {
+    const now = Date.now();
+    return this.states.map((s) => {
+      const limits = s.limiter.getStats();
+      return {
+        name: s.account.name,
+        healthy: !this.isCoolingDown(s, now),
+        cooldownUntil: this.isCoolingDown(s, now) ? s.cooldownUntil : null,
+        lastError: s.lastError,
+        lastErrorAt: s.lastErrorAt,
+        requestCount: s.requestCount,
+        tokenExpiresAt: s.account.auth.getExpiresAt(),
+        credentialSource: s.account.auth.getCredentialSource(),
+        inFlight: limits.inFlight,
+        queued: limits.queued,
+        lastQueueWaitMs: limits.lastWaitMs,
+        circuitOpenUntil: limits.circuitOpenUntil,
+      };
+    });
+  }
+
+  /** Why each credential source was or wasn't used for the default account */
+  getCredentialReport(): CredentialSourceReport[] {
+    return this.credentialReport;
+  }
+}
@@ -0,0 +1,318 @@
+// 00bx Kiro Gateway - Anthropic Messages API Compatibility
+// Translates /v1/messages requests to Kiro payloads and back.
+
+import type { ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2FilePart,
+  LanguageModelV2FunctionTool,
+  LanguageModelV2Prompt,
+  LanguageModelV2TextPart,
+  LanguageModelV2ToolResultPart,
+} from "@ai-sdk/provider";
+import { buildKiroPayload } from "./converter.js";
+import { makeKiroRequest, readKiroEvents } from "./client.js";
+import { AwsEventStreamParser } from "./streaming.js";
+import type { ToolInputData, ToolStartData, ToolStopData } from "./streaming.js";
+import { buildUsage, createUsageData, recordUsageEvent } from "./usage.js";
+import { HttpError, inlineImageFromUrl, reportWarnings, sendJson, startSse, writeSse } from "./http.js";
+import type { ServerContext } from "./http.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+type AnthropicSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string }
+  | { type: "text"; media_type?: string; data: string };
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "image" | "document"; source: AnthropicSource; title?: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content?: string | AnthropicBlock[]; is_error?: boolean }
+  | { type: "thinking" | "redacted_thinking" };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema?: Record<string, unknown>;
+}
+
+interface AnthropicMessagesRequest {
+  model?: string;
+  system?: string | Array<{ type: "text"; text: string }>;
+  messages?: AnthropicMessage[];
+  tools?: AnthropicTool[];
+  stream?: boolean;
+}
+
+// ─── Request translation ─────────────────────────────────────────────────────
+
+function sourceToFilePart(source: AnthropicSource | undefined, filename?: string): LanguageModelV2FilePart {
+  if (!source) throw new HttpError(400, "Missing required field: source");
+  if (source.type === "url") return inlineImageFromUrl(source.url, "source.url", filename);
+  if (source.type === "text") {
+    return {
+      type: "file",
+      mediaType: source.media_type ?? "text/plain",
+      data: Buffer.from(source.data, "utf-8").toString("base64"),
+      filename,
+    };
+  }
+  return { type: "file", mediaType: source.media_type, data: source.data, filename };
+}
+
+function toolResultText(content: string | AnthropicBlock[] | undefined): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((b): b is { type: "text"; text: string } => b.type === "text")
+    .map((b) => b.text)
+    .join("\n");
+}
+
+export function anthropicRequestToPrompt(request: AnthropicMessagesRequest): LanguageModelV2Prompt {
+  const prompt: LanguageModelV2Prompt = [];
+  const toolNames = new Map<string, string>();
+
+  if (request.system) {
+    const system = typeof request.system === "string"
+      ? request.system
+      : request.system.map((b) => b.text).join("\n");
+    if (system) prompt.push({ role: "system", content: system });
+  }
+
+  for (const msg of request.messages ?? []) {
+    const blocks: AnthropicBlock[] = typeof msg.content === "string"
+      ? [{ type: "text", text: msg.content }]
+      : msg.content;
+
+    if (msg.role === "assistant") {
+      const content: Extract<LanguageModelV2Prompt[number], { role: "assistant" }>["content"] = [];
+      for (const block of blocks) {
+        if (block.type === "text") {
+          content.push({ type: "text", text: block.text });
+        } else if (block.type === "tool_use") {
+          toolNames.set(block.id, block.name);
+          content.push({ type: "tool-call", toolCallId: block.id, toolName: block.name, input: block.input ?? {} });
+        }
+        // thinking blocks are not replayed to Kiro
+      }
+      prompt.push({ role: "assistant", content });
+    } else if (msg.role === "user") {
+      // tool_result blocks become a tool message; everything else stays a user message
+      const toolResults: LanguageModelV2ToolResultPart[] = [];
+      const userParts: Array<LanguageModelV2TextPart | LanguageModelV2FilePart> = [];
+
+      for (const block of blocks) {
+        if (block.type === "tool_result") {
+          const text = toolResultText(block.content);
+          toolResults.push({
+            type: "tool-result",
+            toolCallId: block.tool_use_id,
+            toolName: toolNames.get(block.tool_use_id) ?? "",
+            output: block.is_error ? { type: "error-text", value: text } : { type: "text", value: text },
+          });
+        } else if (block.type === "text") {
+          userParts.push({ type: "text", text: block.text });
+        } else if (block.type === "image" || block.type === "document") {
+          userParts.push(sourceToFilePart(block.source, block.title));
+        }
+      }
+
+      if (toolResults.length > 0) prompt.push({ role: "tool", content: toolResults });
+      if (userParts.length > 0) prompt.push({ role: "user", content: userParts });
+    } else {
+      throw new HttpError(400, `Unsupported message role: ${(msg as { role: string }).role}`);
+    }
+  }
+
+  return prompt;
+}
+
+export function anthropicToolsToTools(tools: AnthropicTool[] | undefined): LanguageModelV2FunctionTool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map((t) => ({
+    type: "function" as const,
+    name: t.name,
+    description: t.description,
+    inputSchema: (t.input_schema ?? { type: "object", properties: {} }) as LanguageModelV2FunctionTool["inputSchema"],
+  }));
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────────────
+
+export async function handleMessages(
+  ctx: ServerContext,
+  body: Record<string, unknown>,
+  res: ServerResponse,
+  signal?: AbortSignal,
+): Promise<void> {
+  const request = body as AnthropicMessagesRequest;
+  if (!request.model) throw new HttpError(400, "model: Field required");
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new HttpError(400, "messages: Field required");
+  }
+
+  const model = request.model;
+  const callOptions: LanguageModelV2CallOptions = {
+    prompt: anthropicRequestToPrompt(request),
+    tools: anthropicToolsToTools(request.tools),
+  };
+  await ctx.models.assertKnown(model, signal);
+  const { payload, warnings } = buildKiroPayload(callOptions, model, ctx.accounts.getProfileArn() || "", {
+    models: ctx.models,
+  });
+  reportWarnings(res, warnings);
+  const response = await makeKiroRequest(ctx.accounts, payload as unknown as Record<string, unknown>, {
+    apiHost: ctx.apiHost,
+    abortSignal: signal,
+  });
+
+  const id = `msg_${randomUUID().replace(/-/g, "")}`;
+  const parser = new AwsEventStreamParser();
+  const usageData = createUsageData();
+  let outputText = "";
+
+  if (!request.stream) {
+    const textBlocks: string[] = [];
+    let lastWasText = false;
+
+    await readKiroEvents(response, parser, (event) => {
+      if (event.type === "content") {
+        outputText += event.data as string;
+        if (lastWasText) textBlocks[textBlocks.length - 1] += event.data as string;
+        else textBlocks.push(event.data as string);
+        lastWasText = true;
+      } else if (event.type === "tool_start") {
+        lastWasText = false;
+      } else {
+        recordUsageEvent(usageData, event);
+      }
+    }, { signal });
+
+    const toolCalls = parser.getToolCalls();
+    const { usage } = buildUsage(
+      model,
+      usageData,
+      outputText + toolCalls.map((tc) => tc.arguments).join(""),
+      JSON.stringify(payload),
+      undefined,
+      ctx.models,
+    );
+
+    sendJson(res, 200, {
+      id,
+      type: "message",
+      role: "assistant",
+      model,
+      content: [
+        ...textBlocks.map((text) => ({ type: "text", text })),
+        ...toolCalls.map((tc) => ({ type: "tool_use", id: tc.id, name: tc.name, input: parseToolInput(tc.arguments) })),
+      ],
+      stop_reason: toolCalls.length > 0 ? "tool_use" : "end_turn",
+      stop_sequence: null,
+      usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens },
+    });
+    return;
+  }
+
+  // ─── Streaming (SSE) ───────────────────────────────────────────────
+  const send = (type: string, data: Record<string, unknown>) => writeSse(res, { type, ...data }, type);
+  let blockIndex = -1;
+  let textBlockOpen = false;
+  const toolBlocks = new Map<string, number>();
+
+  const closeTextBlock = () => {
+    if (!textBlockOpen) return;
+    send("content_block_stop", { index: blockIndex });
+    textBlockOpen = false;
+  };
+
+  startSse(res);
+  send("message_start", {
+    message: {
+      id,
+      type: "message",
+      role: "assistant",
+      model,
+      content: [],
+      stop_reason: null,
+      stop_sequence: null,
+      usage: { input_tokens: 0, output_tokens: 0 },
+    },
+  });
+
+  await readKiroEvents(response, parser, (event) => {
+    if (event.type === "content") {
+      if (!textBlockOpen) {
+        blockIndex++;
+        textBlockOpen = true;
+        send("content_block_start", { index: blockIndex, content_block: { type: "text", text: "" } });
+      }
+      outputText += event.data as string;
+      send("content_block_delta", { index: blockIndex, delta: { type: "text_delta", text: event.data as string } });
+    } else if (event.type === "tool_start") {
+      const { id: toolId, name } = event.data as ToolStartData;
+      closeTextBlock();
+      blockIndex++;
+      toolBlocks.set(toolId, blockIndex);
+      send("content_block_start", {
+        index: blockIndex,
+        content_block: { type: "tool_use", id: toolId, name, input: {} },
+      });
+    } else if (event.type === "tool_input") {
+      const { id: toolId, delta } = event.data as ToolInputData;
+      send("content_block_delta", {
+        index: toolBlocks.get(toolId),
+        delta: { type: "input_json_delta", partial_json: delta },
+      });
+    } else if (event.type === "tool_stop") {
+      const { id: toolId } = event.data as ToolStopData;
+      const index = toolBlocks.get(toolId);
+      if (index !== undefined) {
+        send("content_block_stop", { index });
+        toolBlocks.delete(toolId);
+      }
+    } else {
+      recordUsageEvent(usageData, event);
+    }
+  }, { signal });
+
+  for (const event of parser.flush()) {
+    const index = toolBlocks.get((event.data as ToolStopData).id);
+    if (index !== undefined) send("content_block_stop", { index });
+  }
+  closeTextBlock();
+
+  const toolCalls = parser.getToolCalls();
+  const { usage } = buildUsage(
+    model,
+    usageData,
+    outputText + toolCalls.map((tc) => tc.arguments).join(""),
+    JSON.stringify(payload),
+    undefined,
+    ctx.models,
+  );
+
+  send("message_delta", {
+    delta: { stop_reason: toolCalls.length > 0 ? "tool_use" : "end_turn", stop_sequence: null },
+    usage: { input_tokens: usage.inputTokens, output_tokens: usage.outputTokens },
+  });
+  send("message_stop", {});
+  res.end();
+}
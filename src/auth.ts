@@ -1,16 +1,38 @@
 // 00bx Kiro Gateway - Authentication Manager
 
-import { join } from "node:path";
-import { homedir, platform } from "node:os";
-import { existsSync, readFileSync } from "node:fs";
-import { execSync } from "node:child_process";
+import { LoadAPIKeyError } from "@ai-sdk/provider";
 import { getKiroRefreshUrl, TOKEN_REFRESH_THRESHOLD } from "./config.js";
-import { getMachineFingerprint } from "./utils.js";
+import { defaultCredentialSources, resolveCredentials } from "./credentials.js";
+import type { CredentialSource, CredentialSourceReport, ResolvedCredentials } from "./credentials.js";
+import { createKiroApiError, headersToRecord } from "./errors.js";
+import { debugLog, registerSecret } from "./logger.js";
+import { KiroTokenCache, tokenCacheKey } from "./token-cache.js";
+import { abortable, getMachineFingerprint, throwIfAborted } from "./utils.js";
+
+/** Explicit credentials, used instead of the credential sources (e.g. pooled accounts) */
+export interface KiroCredentials {
+  refreshToken: string;
+  profileArn?: string;
+  region?: string;
+}
 
-interface DbTokenData {
-  refresh_token?: string;
-  profile_arn?: string;
+export interface KiroAuthOptions {
   region?: string;
+  /** Use these credentials instead of the credential sources */
+  credentials?: KiroCredentials;
+  /** Path to kiro-cli's data.sqlite3 (auto-detected by default) */
+  dbPath?: string;
+  /** JSON credentials file (default: $KIRO_CREDENTIALS_FILE) */
+  credentialsFile?: string;
+  /** Replace the default chain (env → credentials file → SSO cache → kiro-cli DB) */
+  sources?: CredentialSource[];
+  /** Share refreshed tokens with other processes through a cache file (default true) */
+  tokenCache?: boolean;
+  /** Token cache file (default ~/.config/00bx-kiro-gateway/tokens.json) */
+  tokenCachePath?: string;
+  /** Override the token refresh endpoint (e.g. a mock Kiro server) */
+  refreshUrl?: string;
+  fetch?: typeof globalThis.fetch;
 }
 
 export class KiroAuthManager {
@@ -20,138 +42,84 @@ export class KiroAuthManager {
   private accessToken: string | null = null;
   private expiresAt: number | null = null; // unix timestamp ms
   private refreshUrl: string;
-  private kiroDbPath: string | null = null;
+  private refreshUrlOverride: string | null;
+  private sources: CredentialSource[] = [];
+  private activeSource: CredentialSource | null = null;
+  private sourceRefreshToken: string | null = null;
+  private credentialReport: CredentialSourceReport[] = [];
+  private tokenCache: KiroTokenCache | null;
+  // Access token Kiro refused (403); never taken back from the cache
+  private rejectedToken: string | null = null;
   private _fingerprint: string;
   private refreshPromise: Promise<void> | null = null;
+  private fetchFn: typeof globalThis.fetch;
 
-  constructor(region = "us-east-1") {
-    this.region = region;
-    this.refreshUrl = getKiroRefreshUrl(region);
+  constructor(options: KiroAuthOptions = {}) {
+    const { credentials } = options;
+    this.region = credentials?.region ?? options.region ?? "us-east-1";
+    this.refreshUrlOverride = options.refreshUrl ?? null;
+    this.refreshUrl = this.refreshUrlOverride ?? getKiroRefreshUrl(this.region);
     this._fingerprint = getMachineFingerprint();
-
-    // Auto-detect kiro-cli SQLite DB
-    this.kiroDbPath = this.findKiroDb();
-
-    // Load credentials from DB
-    if (this.kiroDbPath) {
-      this.syncFromKiroDb();
+    this.fetchFn = options.fetch ?? globalThis.fetch;
+    this.tokenCache = options.tokenCache === false ? null : new KiroTokenCache(options.tokenCachePath);
+
+    if (credentials) {
+      registerSecret(credentials.refreshToken);
+      this.refreshToken = credentials.refreshToken;
+      this.sourceRefreshToken = credentials.refreshToken;
+      this.profileArn = credentials.profileArn ?? null;
+      this.credentialReport = [{ source: "credentials", used: true, reason: "passed explicitly" }];
+      return;
     }
-  }
-
-  private findKiroDb(): string | null {
-    const home = homedir();
-    const candidates: string[] = [];
 
-    const os = platform();
-    if (os === "darwin") {
-      candidates.push(
-        join(home, "Library", "Application Support", "kiro-cli", "data.sqlite3"),
-      );
-    }
-    // Linux
-    candidates.push(join(home, ".config", "kiro-cli", "data.sqlite3"));
-    // Windows
-    if (os === "win32") {
-      candidates.push(
-        join(home, "AppData", "Roaming", "kiro-cli", "data.sqlite3"),
-      );
-    }
-
-    for (const p of candidates) {
-      if (existsSync(p)) return p;
-    }
-    return null;
+    this.sources = options.sources ?? defaultCredentialSources({
+      dbPath: options.dbPath,
+      credentialsFile: options.credentialsFile,
+    });
+    this.resolveFromSources();
   }
 
-  private readTokenFromDb(): DbTokenData | null {
-    if (!this.kiroDbPath) return null;
-
-    // Try multiple SQLite strategies for cross-runtime compatibility
-    // Strategy 1: bun:sqlite (works in Bun — which OpenCode uses)
-    // Strategy 2: better-sqlite3 (works in Node.js)
-    // Strategy 3: sqlite3 CLI (universal fallback)
-
-    const keys = ["kirocli:social:token", "codewhisperer:odic:token"];
-
-    // Strategy 1: bun:sqlite
-    try {
-      // Dynamic import of bun:sqlite — only works in Bun runtime
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const { Database: BunDatabase } = require("bun:sqlite");
-      const db = new BunDatabase(this.kiroDbPath, { readonly: true });
-      try {
-        for (const key of keys) {
-          const row = db.prepare("SELECT value FROM auth_kv WHERE key=?").get(key) as { value: string } | undefined;
-          if (row) {
-            const data = JSON.parse(row.value) as DbTokenData;
-            if (data.refresh_token) return data;
-          }
-        }
-      } finally {
-        db.close();
-      }
-      return null;
-    } catch {
-      // Not running in Bun, try next strategy
-    }
-
-    // Strategy 2: better-sqlite3 (Node.js native addon)
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const Database = require("better-sqlite3");
-      const db = new Database(this.kiroDbPath, { readonly: true, timeout: 5000 });
-      try {
-        for (const key of keys) {
-          const row = db.prepare("SELECT value FROM auth_kv WHERE key=?").get(key) as { value: string } | undefined;
-          if (row) {
-            const data = JSON.parse(row.value) as DbTokenData;
-            if (data.refresh_token) return data;
-          }
-        }
-      } finally {
-        db.close();
-      }
-      return null;
-    } catch {
-      // better-sqlite3 not available or failed, try CLI
+  // Take credentials from a source; `sourceRefreshToken` tracks what the source last said,
+  // so a token we rotated ourselves isn't mistaken for an account switch
+  private adoptCredentials(creds: ResolvedCredentials): void {
+    registerSecret(creds.refreshToken);
+    registerSecret(creds.accessToken);
+    this.sourceRefreshToken = creds.refreshToken;
+    this.refreshToken = creds.refreshToken;
+    this.accessToken = creds.accessToken ?? null;
+    this.expiresAt = creds.accessToken ? creds.expiresAt ?? null : null;
+
+    if (creds.profileArn) this.profileArn = creds.profileArn;
+    if (creds.region && creds.region !== this.region) {
+      this.region = creds.region;
+      this.refreshUrl = this.refreshUrlOverride ?? getKiroRefreshUrl(this.region);
     }
-
-    // Strategy 3: sqlite3 CLI (universal fallback)
-    try {
-      for (const key of keys) {
-        const result = execSync(
-          `sqlite3 "${this.kiroDbPath}" "SELECT value FROM auth_kv WHERE key='${key}';"`,
-          { encoding: "utf-8", timeout: 5000, stdio: ["pipe", "pipe", "pipe"] },
-        ).trim();
-        if (result) {
-          const data = JSON.parse(result) as DbTokenData;
-          if (data.refresh_token) return data;
-        }
-      }
-    } catch {
-      // sqlite3 CLI not available either
-    }
-
-    return null;
   }
 
-  private syncFromKiroDb(): boolean {
-    const dbData = this.readTokenFromDb();
-    if (!dbData?.refresh_token) return false;
+  private resolveFromSources(): void {
+    const { credentials, source, report } = resolveCredentials(this.sources);
+    this.credentialReport = report;
+    this.activeSource = source;
+    if (credentials) this.adoptCredentials(credentials);
+  }
 
-    if (dbData.refresh_token === this.refreshToken) return false;
+  /** Pick up a login or account switch that happened since the last request */
+  private syncFromSource(): boolean {
+    if (this.sources.length === 0) return false;
 
-    // Account changed or first load
-    this.refreshToken = dbData.refresh_token;
-    this.accessToken = null;
-    this.expiresAt = null;
-
-    if (dbData.profile_arn) this.profileArn = dbData.profile_arn;
-    if (dbData.region && dbData.region !== this.region) {
-      this.region = dbData.region;
-      this.refreshUrl = getKiroRefreshUrl(this.region);
+    // Nothing found yet — the user may have signed in since
+    if (!this.activeSource) {
+      this.resolveFromSources();
+      return this.activeSource !== null;
     }
+    if (!this.activeSource.live) return false;
+
+    const { credentials } = this.activeSource.load();
+    if (!credentials || credentials.refreshToken === this.sourceRefreshToken) return false;
 
+    // Account changed
+    debugLog("auth.account-changed", { source: this.activeSource.name });
+    this.adoptCredentials(credentials);
     return true;
   }
 
@@ -162,21 +130,42 @@ export class KiroAuthManager {
 
   private async refreshTokenRequest(): Promise<void> {
     if (!this.refreshToken) {
-      throw new Error("Kiro refresh token not found. Is Kiro CLI installed and logged in?");
+      const checked = this.credentialReport.map((r) => `\n  ${r.source}: ${r.reason}`).join("");
+      throw new LoadAPIKeyError({
+        message: `Kiro refresh token not found. Is Kiro CLI installed and logged in?${checked}`,
+      });
     }
 
-    const res = await fetch(this.refreshUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "User-Agent": `KiroGateway-${this._fingerprint.slice(0, 16)}`,
-      },
-      body: JSON.stringify({ refreshToken: this.refreshToken }),
-    });
+    const started = Date.now();
+    let res: Response;
+    try {
+      res = await this.fetchFn(this.refreshUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": `KiroGateway-${this._fingerprint.slice(0, 16)}`,
+        },
+        body: JSON.stringify({ refreshToken: this.refreshToken }),
+      });
+    } catch (err) {
+      debugLog("auth.refresh", { url: this.refreshUrl, durationMs: Date.now() - started, error: err });
+      throw err;
+    }
 
     if (!res.ok) {
       const text = await res.text().catch(() => "");
-      throw new Error(`Token refresh failed (${res.status}): ${text}`);
+      debugLog("auth.refresh", {
+        url: this.refreshUrl,
+        status: res.status,
+        durationMs: Date.now() - started,
+        body: text.slice(0, 500),
+      });
+      throw createKiroApiError({
+        url: this.refreshUrl,
+        status: res.status,
+        body: text,
+        headers: headersToRecord(res.headers),
+      });
     }
 
     const data = (await res.json()) as {
@@ -190,6 +179,16 @@ export class KiroAuthManager {
       throw new Error("Token refresh response missing accessToken");
     }
 
+    registerSecret(data.accessToken);
+    registerSecret(data.refreshToken);
+    debugLog("auth.refresh", {
+      url: this.refreshUrl,
+      status: res.status,
+      durationMs: Date.now() - started,
+      expiresIn: data.expiresIn,
+      rotatedRefreshToken: !!data.refreshToken && data.refreshToken !== this.refreshToken,
+    });
+
     this.accessToken = data.accessToken;
     if (data.refreshToken) this.refreshToken = data.refreshToken;
     if (data.profileArn) this.profileArn = data.profileArn;
@@ -198,21 +197,76 @@ export class KiroAuthManager {
     this.expiresAt = Date.now() + (expiresIn - 60) * 1000;
   }
 
-  async getAccessToken(): Promise<string> {
-    // Check if account changed in kiro-cli
-    this.syncFromKiroDb();
+  // Take a token stored by another process (or an earlier run) for this account
+  private adoptCachedToken(): boolean {
+    if (!this.tokenCache || !this.sourceRefreshToken) return false;
+    const cached = this.tokenCache.get(tokenCacheKey(this.sourceRefreshToken));
+    if (!cached) return false;
+    registerSecret(cached.accessToken);
+    registerSecret(cached.refreshToken);
+
+    // A rotated refresh token is newer than the source's, even when the access token is stale
+    this.refreshToken = cached.refreshToken;
+    if (cached.profileArn && !this.profileArn) this.profileArn = cached.profileArn;
+
+    if (cached.accessToken === this.rejectedToken) return false;
+    if (Date.now() + TOKEN_REFRESH_THRESHOLD * 1000 >= cached.expiresAt) return false;
+    debugLog("auth.token-cache", { expiresAt: new Date(cached.expiresAt).toISOString() });
+    this.accessToken = cached.accessToken;
+    this.expiresAt = cached.expiresAt;
+    return true;
+  }
+
+  private saveToCache(): void {
+    if (!this.tokenCache || !this.sourceRefreshToken || !this.accessToken || !this.refreshToken) return;
+    try {
+      this.tokenCache.set(tokenCacheKey(this.sourceRefreshToken), {
+        accessToken: this.accessToken,
+        expiresAt: this.expiresAt ?? Date.now(),
+        refreshToken: this.refreshToken,
+        profileArn: this.profileArn,
+        updatedAt: Date.now(),
+      });
+    } catch {
+      // Unwritable cache: this process still has its token
+    }
+  }
+
+  /**
+   * Get a fresh access token, reusing one another process already stored.
+   * The cache's lock file makes concurrent processes wait for a single refresh.
+   */
+  private async refreshAccessToken(): Promise<void> {
+    const cache = this.tokenCache;
+    if (!cache || !this.sourceRefreshToken) return this.refreshTokenRequest();
+    if (this.adoptCachedToken()) return;
+
+    await cache.withLock(async () => {
+      // Someone may have refreshed while we waited for the lock
+      if (this.adoptCachedToken()) return;
+      await this.refreshTokenRequest();
+      this.saveToCache();
+    });
+  }
+
+  async getAccessToken(signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal);
+
+    // Check if the account changed in Kiro
+    this.syncFromSource();
 
     if (this.accessToken && !this.isTokenExpiringSoon()) {
       return this.accessToken;
     }
 
-    // Serialize concurrent refresh calls
+    // Serialize concurrent refresh calls. The shared refresh keeps running if one
+    // caller aborts — only that caller's wait is cancelled.
     if (!this.refreshPromise) {
-      this.refreshPromise = this.refreshTokenRequest().finally(() => {
+      this.refreshPromise = this.refreshAccessToken().finally(() => {
         this.refreshPromise = null;
       });
     }
-    await this.refreshPromise;
+    await abortable(this.refreshPromise, signal);
 
     if (!this.accessToken) {
       throw new Error("Failed to obtain access token");
@@ -220,11 +274,13 @@ export class KiroAuthManager {
     return this.accessToken;
   }
 
-  async forceRefresh(): Promise<string> {
-    this.syncFromKiroDb();
+  async forceRefresh(signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal);
+    this.syncFromSource();
+    this.rejectedToken = this.accessToken;
     this.accessToken = null;
     this.expiresAt = null;
-    return this.getAccessToken();
+    return this.getAccessToken(signal);
   }
 
   getProfileArn(): string | null {
@@ -235,6 +291,26 @@ export class KiroAuthManager {
     return this.region;
   }
 
+  /** Access token expiry (unix ms), or null if no token has been fetched yet */
+  getExpiresAt(): number | null {
+    return this.expiresAt;
+  }
+
+  hasCredentials(): boolean {
+    return this.refreshToken !== null;
+  }
+
+  /** Name of the source the credentials came from ("credentials" when passed explicitly), or null */
+  getCredentialSource(): string | null {
+    if (this.sources.length === 0) return this.refreshToken ? "credentials" : null;
+    return this.activeSource?.name ?? null;
+  }
+
+  /** Why each credential source was or wasn't used */
+  getCredentialReport(): CredentialSourceReport[] {
+    return this.credentialReport;
+  }
+
   get fingerprint(): string {
     return this._fingerprint;
   }
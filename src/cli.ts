@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+// 00bx Kiro Gateway - Command-Line Tool
+// `kiro-gateway status | models | chat | run | doctor` — check a setup and
+// talk to Kiro without going through OpenCode.
+
+import { parseArgs } from "node:util";
+import { createInterface } from "node:readline";
+import type { LanguageModelV2, LanguageModelV2Prompt } from "@ai-sdk/provider";
+import { KiroAccountPool } from "./accounts.js";
+import { checkSqliteStrategies, findKiroDb } from "./credentials.js";
+import { createKiroProvider } from "./index.js";
+import type { KiroProvider } from "./index.js";
+
+const DEFAULT_MODEL = "claude-sonnet-4-5";
+
+const USAGE = `Usage: kiro-gateway <command> [options]
+
+Commands:
+  status            Credential source, accounts, region and token expiry
+  models            Models available to this account
+  chat              Interactive chat (/reset clears history, /exit quits)
+  run "<prompt>"    One-shot prompt (reads stdin if no prompt is given)
+  doctor            Check credentials, SQLite access, token refresh and generation
+
+Options:
+  -m, --model <id>     Model to use (default ${DEFAULT_MODEL})
+  -s, --system <text>  System prompt for chat and run
+      --refresh        Re-fetch the model list (models)
+  -h, --help           Show this help`;
+
+interface CliOptions {
+  model: string;
+  system?: string;
+  refresh: boolean;
+}
+
+function formatExpiry(expiresAt: number | null): string {
+  if (!expiresAt) return "not fetched";
+  const minutes = Math.round((expiresAt - Date.now()) / 60_000);
+  const at = new Date(expiresAt).toLocaleTimeString();
+  return minutes > 0 ? `${at} (in ${minutes} min)` : `${at} (expired)`;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ─── Streaming ───────────────────────────────────────────────────────────────
+
+/** Stream one reply to stdout and return its text */
+async function streamReply(
+  model: LanguageModelV2,
+  prompt: LanguageModelV2Prompt,
+  abortSignal?: AbortSignal,
+): Promise<string> {
+  const { stream } = await model.doStream({ prompt, abortSignal });
+  const reader = stream.getReader();
+  let text = "";
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const { done, value: part } = await reader.read();
+    if (done) break;
+    if (part.type === "text-delta") {
+      text += part.delta;
+      process.stdout.write(part.delta);
+    } else if (part.type === "tool-call") {
+      process.stdout.write(`\n[tool call: ${part.toolName} ${part.input}]\n`);
+    } else if (part.type === "error") {
+      throw part.error;
+    }
+  }
+  process.stdout.write("\n");
+  return text;
+}
+
+function buildPrompt(system: string | undefined): LanguageModelV2Prompt {
+  return system ? [{ role: "system", content: system }] : [];
+}
+
+// ─── Commands ────────────────────────────────────────────────────────────────
+
+async function status(): Promise<number> {
+  const pool = KiroAccountPool.load();
+
+  console.log("Credential sources:");
+  for (const entry of pool.getCredentialReport()) {
+    console.log(`  ${entry.used ? "*" : " "} ${entry.source.padEnd(18)} ${entry.reason}`);
+  }
+
+  let failed = false;
+  console.log("\nAccounts:");
+  const health = pool.getHealth();
+  for (const [i, { name, auth }] of pool.accounts.entries()) {
+    let token = "ok";
+    try {
+      await auth.getAccessToken();
+    } catch (err) {
+      token = errorMessage(err);
+      failed = true;
+    }
+    console.log(`  ${name}`);
+    console.log(`    source:      ${auth.getCredentialSource() ?? "-"}`);
+    console.log(`    region:      ${auth.getRegion()}`);
+    console.log(`    profile ARN: ${auth.getProfileArn() ?? "-"}`);
+    console.log(`    token:       ${token}`);
+    console.log(`    expires:     ${formatExpiry(auth.getExpiresAt())}`);
+    if (!health[i].healthy) console.log(`    cooling down until ${new Date(health[i].cooldownUntil!).toLocaleTimeString()}`);
+  }
+  return failed ? 1 : 0;
+}
+
+async function models(provider: KiroProvider, options: CliOptions): Promise<number> {
+  const list = await provider.listModels({ refresh: options.refresh });
+  const width = Math.max(...list.map((m) => m.id.length), 2);
+  console.log(`${"ID".padEnd(width)}  ${"CONTEXT".padStart(9)}  SOURCE`);
+  for (const model of list) {
+    console.log(`${model.id.padEnd(width)}  ${String(model.contextWindow).padStart(9)}  ${model.source}`);
+  }
+  return 0;
+}
+
+async function run(provider: KiroProvider, options: CliOptions, promptText: string | undefined): Promise<number> {
+  let text = promptText;
+  if (!text) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    text = Buffer.concat(chunks).toString("utf-8").trim();
+  }
+  if (!text) {
+    console.error('kiro-gateway run: no prompt given (pass "<prompt>" or pipe it on stdin)');
+    return 2;
+  }
+
+  const prompt = buildPrompt(options.system);
+  prompt.push({ role: "user", content: [{ type: "text", text }] });
+  await streamReply(provider.languageModel(options.model), prompt);
+  return 0;
+}
+
+async function chat(provider: KiroProvider, options: CliOptions): Promise<number> {
+  const model = provider.languageModel(options.model);
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let prompt = buildPrompt(options.system);
+  console.log(`Chatting with ${options.model}. /reset clears history, /exit quits.`);
+
+  // Async iteration buffers lines, so piped input isn't dropped while a reply streams
+  rl.setPrompt("> ");
+  rl.prompt();
+  try {
+    for await (const input of rl) {
+      const line = input.trim();
+      if (line === "/exit" || line === "/quit") break;
+      if (line === "/reset") {
+        prompt = buildPrompt(options.system);
+        console.log("History cleared.");
+      } else if (line) {
+        prompt.push({ role: "user", content: [{ type: "text", text: line }] });
+        // Ctrl+C stops the reply, not the REPL
+        const controller = new AbortController();
+        const onSigint = () => controller.abort();
+        rl.on("SIGINT", onSigint);
+        try {
+          const reply = await streamReply(model, prompt, controller.signal);
+          prompt.push({ role: "assistant", content: [{ type: "text", text: reply }] });
+        } catch (err) {
+          prompt.pop();
+          console.error(controller.signal.aborted ? "\n(cancelled)" : `\nError: ${errorMessage(err)}`);
+        } finally {
+          rl.off("SIGINT", onSigint);
+        }
+      }
+      rl.prompt();
+    }
+  } finally {
+    rl.close();
+  }
+  return 0;
+}
+
+async function doctor(provider: KiroProvider, options: CliOptions): Promise<number> {
+  let failures = 0;
+  const check = (ok: boolean, label: string, detail: string) => {
+    if (!ok) failures++;
+    console.log(`${ok ? "✓" : "✗"} ${label}: ${detail}`);
+  };
+
+  const runtime = "Bun" in globalThis ? `Bun ${(globalThis as { Bun?: { version: string } }).Bun?.version}` : `Node ${process.version}`;
+  console.log(`Runtime: ${runtime}\n`);
+
+  const pool = KiroAccountPool.load();
+  const report = pool.getCredentialReport();
+  const used = report.find((entry) => entry.used);
+  const hasAccount = pool.accounts.some((account) => account.auth.hasCredentials());
+  check(
+    hasAccount,
+    "credentials",
+    used ? `${used.source} — ${used.reason}` : hasAccount ? "accounts file only" : "no source has a token",
+  );
+  for (const entry of report.filter((e) => !e.used)) console.log(`    ${entry.source}: ${entry.reason}`);
+
+  const dbPath = findKiroDb();
+  if (dbPath) {
+    const checks = checkSqliteStrategies(dbPath);
+    check(checks.some((c) => c.ok && c.detail === "token found"), "kiro-cli DB", dbPath);
+    for (const c of checks) console.log(`    ${c.strategy}: ${c.ok ? c.detail : `unavailable (${c.detail})`}`);
+  } else {
+    console.log("- kiro-cli DB: not found (only needed when signing in with kiro-cli)");
+  }
+
+  if (!hasAccount) {
+    console.log("\nSign in to Kiro (kiro-cli login) or set KIRO_REFRESH_TOKEN, then run doctor again.");
+    return 1;
+  }
+
+  const { name, auth } = pool.current();
+  try {
+    await auth.forceRefresh();
+    check(true, "token refresh", `${name}, expires ${formatExpiry(auth.getExpiresAt())}`);
+  } catch (err) {
+    check(false, "token refresh", errorMessage(err));
+    return 1;
+  }
+
+  try {
+    const list = await provider.listModels({ refresh: true });
+    check(true, "model list", `${list.length} models`);
+  } catch (err) {
+    check(false, "model list", errorMessage(err));
+  }
+
+  const started = Date.now();
+  try {
+    const result = await provider.languageModel(options.model).doGenerate({
+      prompt: [{ role: "user", content: [{ type: "text", text: "Reply with the single word OK." }] }],
+    });
+    const text = result.content.map((part) => (part.type === "text" ? part.text : "")).join("").trim();
+    check(true, "test generation", `${options.model} replied "${text.slice(0, 40)}" in ${Date.now() - started}ms`);
+  } catch (err) {
+    check(false, "test generation", errorMessage(err));
+  }
+
+  console.log(failures ? `\n${failures} check(s) failed.` : "\nAll checks passed.");
+  return failures ? 1 : 0;
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      model: { type: "string", short: "m" },
+      system: { type: "string", short: "s" },
+      refresh: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return command || values.help ? 0 : 2;
+  }
+
+  const options: CliOptions = {
+    model: values.model ?? DEFAULT_MODEL,
+    system: values.system,
+    refresh: values.refresh ?? false,
+  };
+  const provider = createKiroProvider();
+
+  switch (command) {
+    case "status":
+      return status();
+    case "models":
+      return models(provider, options);
+    case "chat":
+      return chat(provider, options);
+    case "run":
+      return run(provider, options, rest.join(" ") || undefined);
+    case "doctor":
+      return doctor(provider, options);
+    default:
+      console.error(`Unknown command "${command}"\n\n${USAGE}`);
+      return 2;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(`Error: ${errorMessage(err)}`);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,389 @@
+// 00bx Kiro Gateway - Kiro API Client
+// Shared by the AI SDK provider and the local HTTP server.
+
+import { EmptyResponseBodyError } from "@ai-sdk/provider";
+import { KiroAccountPool } from "./accounts.js";
+import {
+  ACCOUNT_QUOTA_COOLDOWN_MS,
+  ACCOUNT_THROTTLE_COOLDOWN_MS,
+  DEFAULT_FIRST_BYTE_TIMEOUT_MS,
+  DEFAULT_IDLE_TIMEOUT_MS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+  getKiroApiHost,
+} from "./config.js";
+import type { KiroRetryPolicy } from "./settings.js";
+import { createAbortError, getKiroHeaders, sleep, throwIfAborted } from "./utils.js";
+import {
+  createKiroApiError,
+  createKiroCircuitOpenError,
+  createKiroNetworkError,
+  createKiroStreamError,
+  getKiroErrorReason,
+  headersToRecord,
+} from "./errors.js";
+import { debugLog } from "./logger.js";
+import { getRetryDelayMs, parseRetryAfter, releaseWhenConsumed } from "./rate-limit.js";
+import type { AwsEventStreamParser, ExceptionData, ParsedEvent } from "./streaming.js";
+
+// ─── Singleton account pool ──────────────────────────────────────────────────
+
+let accountPool: KiroAccountPool | null = null;
+
+export function getAccountPool(): KiroAccountPool {
+  if (!accountPool) {
+    accountPool = KiroAccountPool.load();
+  }
+  return accountPool;
+}
+
+// ─── Make API request to Kiro ────────────────────────────────────────────────
+
+export interface KiroRequestOptions {
+  retry?: KiroRetryPolicy;
+  /** Override the CodeWhisperer host (e.g. a local stand-in for testing) */
+  apiHost?: string;
+  /** Extra headers merged over the default Kiro headers */
+  headers?: Record<string, string>;
+  firstByteTimeoutMs?: number;
+  fetch?: typeof globalThis.fetch;
+  /** Caller cancellation — aborts token refresh, the request, retry delays and the body */
+  abortSignal?: AbortSignal;
+  /** Filled in as attempts are made (for hooks) */
+  stats?: KiroRequestStats;
+}
+
+export interface KiroRequestStats {
+  /** HTTP attempts made, including retries and account rotations */
+  attempts: number;
+  /** Name of the account used by the latest attempt */
+  account: string | null;
+}
+
+// fetch() with a deadline for the response headers. The caller's signal stays
+// attached to the response so aborting later also tears down the body stream.
+async function fetchWithFirstByteTimeout(
+  fetchFn: typeof globalThis.fetch,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<{ response: Response; detach: () => void }> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  // Linked until the caller is done with the body, so an abort still stops the stream
+  const onAbort = () => controller.abort(signal?.reason);
+  const detach = () => signal?.removeEventListener("abort", onAbort);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const response = await fetchFn(url, { ...init, signal: controller.signal });
+    return { response, detach };
+  } catch (err) {
+    detach();
+    if (signal?.aborted) throw createAbortError(signal);
+    if (timedOut) throw new Error(`Kiro API did not respond within ${timeoutMs}ms`);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function makeKiroRequest(
+  pool: KiroAccountPool,
+  payload: Record<string, unknown>,
+  options: KiroRequestOptions = {},
+): Promise<Response> {
+  const retries = options.retry?.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.retry?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const maxDelayMs = options.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const signal = options.abortSignal;
+  let lastError: Error | null = null;
+  let account = pool.current();
+  let freshAccount = true;
+
+  // Rotating to another account doesn't use up a retry
+  let rotations = 0;
+  for (let attempt = 0; attempt < retries; attempt++) {
+    const { auth } = account;
+    const limiter = pool.limiterFor(account);
+
+    // Throttled repeatedly — fail fast instead of adding to the pile
+    const circuitMs = limiter.circuitRemainingMs();
+    if (circuitMs > 0) {
+      throw createKiroCircuitOpenError({
+        url: `${options.apiHost ?? getKiroApiHost(auth.getRegion())}/generateAssistantResponse`,
+        account: account.name,
+        retryInMs: circuitMs,
+      });
+    }
+
+    const token = freshAccount
+      ? await auth.getAccessToken(signal)
+      : await auth.forceRefresh(signal);
+    freshAccount = false;
+
+    // Each account has its own profile ARN
+    const profileArn = auth.getProfileArn();
+    if (profileArn) payload.profileArn = profileArn;
+
+    const apiHost = options.apiHost ?? getKiroApiHost(auth.getRegion());
+    const url = `${apiHost}/generateAssistantResponse`;
+    const headers = { ...getKiroHeaders(auth.fingerprint, token), ...options.headers };
+    // Wait for a concurrency slot and a rate token; the slot is held until the body is read
+    const release = await limiter.acquire(signal);
+    pool.recordRequest(account);
+    if (options.stats) {
+      options.stats.attempts++;
+      options.stats.account = account.name;
+    }
+
+    const started = Date.now();
+    const logFields = { attempt: attempt + 1, account: account.name, url };
+    let res: Response;
+    let detach: () => void;
+    try {
+      ({ response: res, detach } = await fetchWithFirstByteTimeout(
+        fetchFn,
+        url,
+        { method: "POST", headers, body: JSON.stringify(payload) },
+        options.firstByteTimeoutMs ?? DEFAULT_FIRST_BYTE_TIMEOUT_MS,
+        signal,
+      ));
+    } catch (err) {
+      release();
+      throwIfAborted(signal);
+      // No response in time or network failure — back off and retry like a 5xx
+      lastError = createKiroNetworkError(url, payload, err);
+      pool.recordError(account, lastError.message);
+      debugLog("request", { ...logFields, durationMs: Date.now() - started, error: err });
+      if (attempt < retries - 1) {
+        const delayMs = getRetryDelayMs(attempt, baseDelayMs, maxDelayMs);
+        debugLog("retry", { attempt: attempt + 1, reason: "network", delayMs });
+        await sleep(delayMs, signal);
+      }
+      continue;
+    }
+
+    debugLog("request", { ...logFields, status: res.status, durationMs: Date.now() - started });
+    if (res.ok) {
+      pool.recordSuccess(account);
+      limiter.recordSuccess();
+      return releaseWhenConsumed(res, () => {
+        detach();
+        release();
+      }, signal);
+    }
+
+    const status = res.status;
+    const body = await res.text().catch(() => "");
+    detach();
+    release();
+    throwIfAborted(signal);
+
+    const error = createKiroApiError({
+      url,
+      requestBody: payload,
+      status,
+      body,
+      headers: headersToRecord(res.headers),
+    });
+    const reason = getKiroErrorReason(error);
+    pool.recordError(account, error.message);
+    lastError = error;
+
+    if (reason === "throttled") limiter.recordThrottle();
+    if (reason === "throttled" || reason === "quota") {
+      // Throttled or out of credits — cool this account down and try the next one
+      pool.markExhausted(
+        account,
+        error.message,
+        reason === "quota" ? ACCOUNT_QUOTA_COOLDOWN_MS : ACCOUNT_THROTTLE_COOLDOWN_MS,
+      );
+
+      if (rotations < pool.size - 1 && pool.hasHealthyAlternative(account)) {
+        const from = account.name;
+        account = pool.current();
+        debugLog("account.rotate", { from, to: account.name, reason });
+        freshAccount = true;
+        rotations++;
+        attempt--;
+        continue;
+      }
+      // No account left with credits — waiting won't help
+      if (reason === "quota") throw error;
+    }
+
+    if (status === 403) {
+      // Token expired, retry with fresh token
+      debugLog("retry", { attempt: attempt + 1, reason: "auth", delayMs: 0 });
+      continue;
+    }
+
+    if (error.isRetryable) {
+      // Rate limit or server error, wait and retry
+      if (attempt < retries - 1) {
+        const retryAfterMs = parseRetryAfter(res.headers.get("retry-after"));
+        const delayMs = getRetryDelayMs(attempt, baseDelayMs, maxDelayMs, retryAfterMs);
+        debugLog("retry", { attempt: attempt + 1, reason: reason ?? `status ${status}`, delayMs, retryAfterMs });
+        await sleep(delayMs, signal);
+      }
+      continue;
+    }
+
+    // Client error (4xx) — don't retry
+    throw error;
+  }
+
+  throw lastError ?? new Error("Kiro API request failed after retries");
+}
+
+// ─── Read the response event stream ──────────────────────────────────────────
+
+export interface ReadKiroEventsOptions {
+  /** Cancel the body after this long without data (default 15s) */
+  idleTimeoutMs?: number;
+  signal?: AbortSignal;
+  /** Observe or rewrite each event before `onEvent`; null drops it (exceptions always pass through) */
+  transform?: (event: ParsedEvent) => ParsedEvent | null | void;
+}
+
+// A throwing hook keeps the event as parsed rather than truncating the reply
+function applyTransform(
+  transform: NonNullable<ReadKiroEventsOptions["transform"]>,
+  event: ParsedEvent,
+): ParsedEvent | null {
+  try {
+    const result = transform(event);
+    return result === undefined ? event : result;
+  } catch (err) {
+    debugLog("hook.error", { hook: "onEvent", eventType: event.type, error: err });
+    return event;
+  }
+}
+
+/**
+ * Feed the response body through the parser, calling `onEvent` for each event.
+ * Resolves when the stream ends, Kiro signals completion, `onEvent` returns false,
+ * or the idle timeout fires.
+ * Cancellation throws an AbortError; after an idle timeout callers finish with
+ * whatever was collected. Any other failure cancels the body and is thrown, so
+ * it never ends in a silently truncated reply: a dropped connection as a network
+ * APICallError, corrupt frames as EventStreamDecodeError, Kiro's mid-stream
+ * exception frames as APICallError, and errors from `onEvent` as they are.
+ */
+export async function readKiroEvents(
+  response: Response,
+  parser: AwsEventStreamParser,
+  onEvent: (event: ParsedEvent) => boolean | void | Promise<boolean | void>,
+  options: ReadKiroEventsOptions = {},
+): Promise<void> {
+  const { signal, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS, transform } = options;
+  throwIfAborted(signal);
+  if (!response.body) {
+    throw new EmptyResponseBodyError({ message: "Empty response from Kiro API" });
+  }
+  const reader = response.body.getReader();
+
+  // Cancelling the reader resolves the pending read(), closing the upstream connection
+  const onAbort = () => {
+    reader.cancel().catch(() => {});
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  // Idle timeout: cancel the reader if no data arrives for a while.
+  // This works in Bun because we cancel() the reader directly,
+  // which causes the pending reader.read() to resolve with { done: true }.
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let idleTimedOut = false;
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      idleTimedOut = true;
+      reader.cancel().catch(() => {});
+    }, idleTimeoutMs);
+  };
+
+  // Per-stream stats for the debug log
+  const started = Date.now();
+  const eventCounts: Record<string, number> = {};
+  let bytes = 0;
+  let endReason = "done";
+
+  let stopped = false;
+  try {
+    resetIdleTimer();
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      let chunk: Awaited<ReturnType<typeof reader.read>>;
+      try {
+        chunk = await reader.read();
+      } catch (err) {
+        // Our own cancellation (abort, idle timeout) isn't a failure
+        if (signal?.aborted || idleTimedOut) break;
+        throw createKiroNetworkError(response.url, {}, err);
+      }
+      const { done, value } = chunk;
+      if (done || signal?.aborted) break;
+
+      // Data arrived — reset the idle timer
+      resetIdleTimer();
+      bytes += value.byteLength;
+
+      for (const parsed of parser.feed(value)) {
+        eventCounts[parsed.type] = (eventCounts[parsed.type] ?? 0) + 1;
+        if (parsed.type === "exception") {
+          const { exceptionType, message } = parsed.data as ExceptionData;
+          throw createKiroStreamError({
+            url: response.url,
+            exceptionType,
+            message,
+            headers: headersToRecord(response.headers),
+          });
+        }
+        const event = transform ? applyTransform(transform, parsed) : parsed;
+        if (!event) continue;
+        if ((await onEvent(event)) === false) {
+          stopped = true;
+          break;
+        }
+      }
+
+      // The caller has everything it wants (e.g. a stop sequence was hit)
+      if (stopped) {
+        endReason = "stopped";
+        reader.cancel().catch(() => {});
+        break;
+      }
+
+      // Kiro finished: usage received + no pending tool call.
+      // Don't wait for reader done — Kiro may keep the connection open.
+      if (parser.isComplete()) {
+        endReason = "complete";
+        reader.cancel().catch(() => {});
+        break;
+      }
+    }
+  } catch (err) {
+    endReason = "error";
+    debugLog("stream.error", { url: response.url, error: err });
+    reader.cancel().catch(() => {});
+    throw err;
+  } finally {
+    if (idleTimer) clearTimeout(idleTimer);
+    if (idleTimedOut) endReason = "idle-timeout";
+    else if (signal?.aborted) endReason = "aborted";
+    debugLog("stream.end", { url: response.url, endReason, events: eventCounts, bytes, durationMs: Date.now() - started });
+    signal?.removeEventListener("abort", onAbort);
+    reader.releaseLock();
+  }
+
+  throwIfAborted(signal);
+}
@@ -6,8 +6,34 @@ export const KIRO_API_HOST_TEMPLATE =
   "https://codewhisperer.{region}.amazonaws.com";
 
 export const TOKEN_REFRESH_THRESHOLD = 600; // 10 minutes
+export const ACCOUNT_THROTTLE_COOLDOWN_MS = 60_000; // 1 minute after a 429
+export const ACCOUNT_QUOTA_COOLDOWN_MS = 3_600_000; // 1 hour after quota exhaustion
 export const TOOL_DESCRIPTION_MAX_LENGTH = 10000;
 
+// Request defaults (overridable via KiroProviderSettings)
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 8000;
+export const DEFAULT_IDLE_TIMEOUT_MS = 15_000;
+export const DEFAULT_FIRST_BYTE_TIMEOUT_MS = 120_000;
+// A Retry-After longer than this is capped; the account pool handles longer outages
+export const RETRY_AFTER_MAX_MS = 60_000;
+
+// Client-side rate limiting, per account
+export const DEFAULT_MAX_CONCURRENT = 4;
+export const DEFAULT_BREAKER_THRESHOLD = 3; // consecutive throttled responses
+export const DEFAULT_BREAKER_COOLDOWN_MS = 30_000;
+
+// Rough chars-per-token ratio used for client-side token estimates
+export const CHARS_PER_TOKEN = 4;
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+// Share of the context window a request may fill; the rest is headroom for the reply
+export const CONTEXT_BUDGET_RATIO = 0.85;
+// Flat per-image token estimate (base64 length is no guide to image tokens)
+export const IMAGE_TOKEN_ESTIMATE = 1600;
+// How long a discovered model list is trusted before asking Kiro again
+export const MODEL_CACHE_TTL_MS = 6 * 3_600_000; // 6 hours
+
 export const MODEL_MAPPING: Record<string, string> = {
   "claude-opus-4-5": "claude-opus-4.5",
   "claude-opus-4-5-20251101": "claude-opus-4.5",
@@ -21,6 +47,37 @@ export const MODEL_MAPPING: Record<string, string> = {
   auto: "claude-sonnet-4.5",
 };
 
+// Context window (tokens) per internal model ID
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "claude-opus-4.5": 200_000,
+  "claude-haiku-4.5": 200_000,
+  "claude-sonnet-4.5": 200_000,
+  CLAUDE_SONNET_4_5_20250929_V1_0: 200_000,
+  CLAUDE_SONNET_4_20250514_V1_0: 200_000,
+  CLAUDE_3_7_SONNET_20250219_V1_0: 200_000,
+};
+
+/** Models one account's ListAvailableModels reported (kept per KiroModelCatalog) */
+export interface DiscoveredModelLookup {
+  /** A discovered Kiro model ID, or the dashed spelling of one */
+  hasModel(modelId: string): boolean;
+  /** Kiro model ID for a dashed spelling of a discovered dotted ID ("claude-opus-4-6" → "claude-opus-4.6") */
+  resolveAlias(modelId: string): string | undefined;
+  getContextWindow(kiroModelId: string): number | undefined;
+}
+
+/** True if the ID is a built-in config ID, a Kiro model ID we know of, or a discovered alias */
+export function isKnownModelId(
+  modelId: string,
+  aliases: Record<string, string> = {},
+  discovered?: DiscoveredModelLookup,
+): boolean {
+  return modelId in aliases
+    || modelId in MODEL_MAPPING
+    || modelId in MODEL_CONTEXT_WINDOWS
+    || !!discovered?.hasModel(modelId);
+}
+
 export function getKiroRefreshUrl(region: string): string {
   return KIRO_REFRESH_URL_TEMPLATE.replace("{region}", region);
 }
@@ -29,6 +86,28 @@ export function getKiroApiHost(region: string): string {
   return KIRO_API_HOST_TEMPLATE.replace("{region}", region);
 }
 
-export function getInternalModelId(externalModel: string): string {
-  return MODEL_MAPPING[externalModel] ?? externalModel;
+/**
+ * Resolve a config model ID to Kiro's internal ID. `aliases` (from provider
+ * settings) win over MODEL_MAPPING, which wins over models discovered from Kiro.
+ */
+export function getInternalModelId(
+  externalModel: string,
+  aliases: Record<string, string> = {},
+  discovered?: DiscoveredModelLookup,
+): string {
+  return aliases[externalModel]
+    ?? MODEL_MAPPING[externalModel]
+    ?? discovered?.resolveAlias(externalModel)
+    ?? externalModel;
+}
+
+export function getModelContextWindow(
+  externalModel: string,
+  aliases: Record<string, string> = {},
+  discovered?: DiscoveredModelLookup,
+): number {
+  const internalId = getInternalModelId(externalModel, aliases, discovered);
+  return MODEL_CONTEXT_WINDOWS[internalId]
+    ?? discovered?.getContextWindow(internalId)
+    ?? DEFAULT_CONTEXT_WINDOW;
 }
@@ -2,11 +2,21 @@
 
 import type {
   LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2FilePart,
   LanguageModelV2Prompt,
   LanguageModelV2Content,
 } from "@ai-sdk/provider";
-import { getInternalModelId, TOOL_DESCRIPTION_MAX_LENGTH } from "./config.js";
-import { generateConversationId } from "./utils.js";
+import {
+  CONTEXT_BUDGET_RATIO,
+  getInternalModelId,
+  getModelContextWindow,
+  IMAGE_TOKEN_ESTIMATE,
+  TOOL_DESCRIPTION_MAX_LENGTH,
+} from "./config.js";
+import type { DiscoveredModelLookup } from "./config.js";
+import { estimateTokens } from "./usage.js";
+import { deriveConversationId, generateConversationId } from "./utils.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -24,10 +34,16 @@ interface KiroToolResult {
   toolUseId: string;
 }
 
+interface KiroImage {
+  format: string;
+  source: { bytes: string };
+}
+
 interface KiroUserInput {
   content: string;
   modelId: string;
   origin: string;
+  images?: KiroImage[];
   userInputMessageContext?: {
     tools?: KiroToolSpec[];
     toolResults?: KiroToolResult[];
@@ -58,6 +74,22 @@ export interface KiroPayload {
   profileArn?: string;
 }
 
+export interface KiroPayloadOptions {
+  /** Extra model ID mappings from provider settings */
+  modelAliases?: Record<string, string>;
+  /** Drop the oldest history turns when the request would overflow the context window (default true) */
+  trimHistory?: boolean;
+  /** Models discovered for this provider's account, for IDs and context windows */
+  models?: DiscoveredModelLookup;
+}
+
+export interface KiroPayloadResult {
+  payload: KiroPayload;
+  warnings: LanguageModelV2CallWarning[];
+  /** toolChoice is "required" and tools were sent: a text-only reply should be re-prompted */
+  requiresToolCall: boolean;
+}
+
 // ─── Schema sanitizer ────────────────────────────────────────────────────────
 
 function sanitizeJsonSchema(schema: Record<string, unknown> | undefined): Record<string, unknown> {
@@ -105,6 +137,162 @@ function extractTextFromParts(parts: LanguageModelV2Content): string {
     .join("");
 }
 
+// ─── Conversation ID ─────────────────────────────────────────────────────────
+
+/**
+ * `providerOptions.kiro.conversationId` if given, otherwise derived from the
+ * system prompt and first user message — the same for every turn of a session.
+ */
+export function getConversationId(options: LanguageModelV2CallOptions): string {
+  const pinned = options.providerOptions?.kiro?.conversationId;
+  if (typeof pinned === "string" && pinned.trim()) return pinned.trim();
+
+  const system = options.prompt
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n");
+  const firstUser = options.prompt.find((m) => m.role === "user");
+  if (!firstUser) return generateConversationId();
+  const firstText = firstUser.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+  return deriveConversationId(JSON.stringify([system, firstText]));
+}
+
+// ─── File parts (images and text-like files) ─────────────────────────────────
+
+// Image formats Kiro accepts in `userInputMessage.images`
+const IMAGE_FORMATS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpeg",
+  "image/jpg": "jpeg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const TEXT_MEDIA_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-yaml",
+  "application/yaml",
+  "application/toml",
+  "application/x-sh",
+  "application/sql",
+  "application/graphql",
+]);
+
+// Fence language by file extension, falling back to the media subtype
+const FENCE_LANGUAGES: Record<string, string> = {
+  md: "markdown",
+  markdown: "markdown",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "jsx",
+  ts: "typescript",
+  tsx: "tsx",
+  py: "python",
+  rb: "ruby",
+  rs: "rust",
+  go: "go",
+  java: "java",
+  kt: "kotlin",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cs: "csharp",
+  sh: "bash",
+  yml: "yaml",
+  yaml: "yaml",
+  json: "json",
+  toml: "toml",
+  html: "html",
+  css: "css",
+  sql: "sql",
+  xml: "xml",
+};
+
+/** Regexes for URLs Kiro content can be built from without a download (inline data: URLs only) */
+export const SUPPORTED_URLS: Record<string, RegExp[]> = {
+  "image/*": [/^data:image\/(png|jpe?g|gif|webp);base64,/],
+  "text/*": [/^data:text\/[a-z0-9.+-]+(;[^,]*)?,/],
+  "application/json": [/^data:application\/json(;[^,]*)?,/],
+};
+
+function isTextMediaType(mediaType: string): boolean {
+  return mediaType.startsWith("text/") || TEXT_MEDIA_TYPES.has(mediaType) || mediaType.endsWith("+json") || mediaType.endsWith("+xml");
+}
+
+// Detect image format from magic bytes (for "image/*" media types)
+function sniffImageFormat(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return "gif";
+  if (bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) return "webp";
+  return null;
+}
+
+// Resolve file data to raw bytes. Strings are base64 (AI SDK convention); only data: URLs can be decoded locally.
+function fileDataToBytes(data: LanguageModelV2FilePart["data"]): Uint8Array | null {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof URL) {
+    if (data.protocol !== "data:") return null;
+    const href = data.href;
+    const comma = href.indexOf(",");
+    if (comma === -1) return null;
+    const meta = href.slice(5, comma);
+    const body = href.slice(comma + 1);
+    return meta.endsWith(";base64")
+      ? Buffer.from(body, "base64")
+      : Buffer.from(decodeURIComponent(body), "utf-8");
+  }
+  return Buffer.from(data, "base64");
+}
+
+function fenceLanguage(part: LanguageModelV2FilePart): string {
+  const ext = part.filename?.split(".").pop()?.toLowerCase();
+  if (ext && FENCE_LANGUAGES[ext]) return FENCE_LANGUAGES[ext];
+  const subtype = part.mediaType.split("/")[1]?.replace(/^x-/, "").split("+")[0] ?? "";
+  return subtype === "plain" ? "" : subtype;
+}
+
+function convertFilePart(
+  part: LanguageModelV2FilePart,
+  warnings: LanguageModelV2CallWarning[],
+): { image?: KiroImage; text?: string } {
+  const mediaType = part.mediaType.toLowerCase();
+  const label = part.filename ? `'${part.filename}'` : `(${mediaType})`;
+
+  const bytes = fileDataToBytes(part.data);
+  if (!bytes) {
+    warnings.push({
+      type: "other",
+      message: `File ${label} was passed by URL, which Kiro cannot fetch; it was dropped`,
+    });
+    return {};
+  }
+
+  if (mediaType.startsWith("image/")) {
+    const format = IMAGE_FORMATS[mediaType] ?? sniffImageFormat(bytes);
+    if (!format) {
+      warnings.push({ type: "other", message: `Unsupported image type ${mediaType} for file ${label}; it was dropped` });
+      return {};
+    }
+    return { image: { format, source: { bytes: Buffer.from(bytes).toString("base64") } } };
+  }
+
+  if (isTextMediaType(mediaType)) {
+    const text = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
+    const header = part.filename ? `File: ${part.filename}\n` : "";
+    return { text: `${header}\`\`\`${fenceLanguage(part)}\n${text}\n\`\`\`` };
+  }
+
+  warnings.push({ type: "other", message: `Unsupported file type ${mediaType} for file ${label}; it was dropped` });
+  return {};
+}
+
 // ─── Build tool specs for Kiro ───────────────────────────────────────────────
 
 function buildToolSpecs(
@@ -148,6 +336,145 @@ function buildToolSpecs(
   return { specs, toolDocumentation };
 }
 
+// ─── Tool choice ─────────────────────────────────────────────────────────────
+
+// Kiro has no tool_choice field, so everything but "none" is steered by instruction
+const TOOL_CALL_REMINDER =
+  "You must respond by calling one of the available tools. Do not answer with text only.";
+
+interface ToolChoiceResult {
+  tools: LanguageModelV2CallOptions["tools"];
+  instruction: string;
+  requiresToolCall: boolean;
+}
+
+function applyToolChoice(
+  options: LanguageModelV2CallOptions,
+  warnings: LanguageModelV2CallWarning[],
+): ToolChoiceResult {
+  const { tools, toolChoice } = options;
+  const result: ToolChoiceResult = { tools, instruction: "", requiresToolCall: false };
+  if (!toolChoice || toolChoice.type === "auto") return result;
+
+  if (toolChoice.type === "none") {
+    result.tools = undefined;
+    return result;
+  }
+
+  if (!tools || tools.length === 0) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "toolChoice",
+      details: `toolChoice "${toolChoice.type}" was requested but no tools were provided`,
+    });
+    return result;
+  }
+
+  if (toolChoice.type === "required") {
+    result.instruction = TOOL_CALL_REMINDER;
+    result.requiresToolCall = true;
+    return result;
+  }
+
+  const tool = tools.find((t) => t.name === toolChoice.toolName);
+  if (!tool) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "toolChoice",
+      details: `Tool "${toolChoice.toolName}" is not in the tools list; falling back to "auto"`,
+    });
+    return result;
+  }
+
+  result.tools = [tool];
+  result.instruction = `You must respond by calling the \`${tool.name}\` tool. Do not answer with text only.`;
+  result.requiresToolCall = true;
+  return result;
+}
+
+/** Append the text-only reply and a nudge for a single re-prompt; the tool instruction is re-added by buildKiroPayload */
+export function withToolCallReminder(
+  prompt: LanguageModelV2Prompt,
+  assistantText: string,
+): LanguageModelV2Prompt {
+  return [
+    ...prompt,
+    { role: "assistant", content: [{ type: "text", text: assistantText || "(no response)" }] },
+    { role: "user", content: [{ type: "text", text: "Your previous reply did not call a tool." }] },
+  ];
+}
+
+// ─── Call settings ───────────────────────────────────────────────────────────
+
+// Sampling settings Kiro has no field for; they are dropped from the request
+const UNSUPPORTED_SETTINGS = [
+  "temperature",
+  "topP",
+  "topK",
+  "seed",
+  "presencePenalty",
+  "frequencyPenalty",
+] as const;
+
+function callSettingWarnings(
+  options: LanguageModelV2CallOptions,
+  warnings: LanguageModelV2CallWarning[],
+): void {
+  for (const setting of UNSUPPORTED_SETTINGS) {
+    if (options[setting] !== undefined) {
+      warnings.push({ type: "unsupported-setting", setting });
+    }
+  }
+  if (options.stopSequences && options.stopSequences.length > 0) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "stopSequences",
+      details: "Kiro has no stop sequences; the reply is cut client-side when one appears",
+    });
+  }
+  if (options.maxOutputTokens !== undefined) {
+    warnings.push({
+      type: "unsupported-setting",
+      setting: "maxOutputTokens",
+      details: "Kiro has no output limit; the reply is cut client-side at an estimated token count",
+    });
+  }
+}
+
+// ─── Response format ─────────────────────────────────────────────────────────
+
+// JSON mode is emulated: the format goes into the prompt and the reply is validated afterwards
+function jsonInstruction(responseFormat: LanguageModelV2CallOptions["responseFormat"]): string {
+  if (responseFormat?.type !== "json") return "";
+
+  const lines = [
+    "Respond with a single JSON value and nothing else: no prose, no explanations, no code fences.",
+  ];
+  if (responseFormat.name) lines.push(`The value is a "${responseFormat.name}".`);
+  if (responseFormat.description) lines.push(responseFormat.description);
+  if (responseFormat.schema) {
+    lines.push(`It must match this JSON schema:\n${JSON.stringify(responseFormat.schema, null, 2)}`);
+  }
+  return lines.join("\n");
+}
+
+/** Append the rejected reply and what was wrong with it, for a single corrective retry */
+export function withJsonCorrection(
+  prompt: LanguageModelV2Prompt,
+  assistantText: string,
+  errors: string[],
+): LanguageModelV2Prompt {
+  const problems = errors.map((e) => `- ${e}`).join("\n");
+  return [
+    ...prompt,
+    { role: "assistant", content: [{ type: "text", text: assistantText || "(no response)" }] },
+    {
+      role: "user",
+      content: [{ type: "text", text: `Your previous reply was rejected:\n${problems}\nReply again with only the corrected JSON.` }],
+    },
+  ];
+}
+
 // ─── Convert AI SDK prompt to Kiro history entries ───────────────────────────
 
 interface FlatMessage {
@@ -155,11 +482,13 @@ interface FlatMessage {
   content: string;
   toolCalls?: Array<{ name: string; input: Record<string, unknown>; toolUseId: string }>;
   toolResults?: KiroToolResult[];
+  images?: KiroImage[];
 }
 
 function flattenPrompt(
   prompt: LanguageModelV2Prompt,
   hasToolsInRequest: boolean,
+  warnings: LanguageModelV2CallWarning[],
 ): { systemPrompt: string; messages: FlatMessage[] } {
   let systemPrompt = "";
   const messages: FlatMessage[] = [];
@@ -173,10 +502,25 @@ function flattenPrompt(
         systemPrompt += (systemPrompt ? "\n" : "") + extractTextFromParts(msg.content as LanguageModelV2Content);
       }
     } else if (msg.role === "user") {
-      const textParts = (msg.content as LanguageModelV2Content)
-        .filter((p): p is { type: "text"; text: string } => p.type === "text")
-        .map((p) => p.text);
-      messages.push({ role: "user", content: textParts.join("") || "" });
+      const textParts: string[] = [];
+      const images: KiroImage[] = [];
+
+      for (const part of msg.content) {
+        if (part.type === "text") {
+          textParts.push(part.text);
+        } else if (part.type === "file") {
+          const converted = convertFilePart(part, warnings);
+          if (converted.image) images.push(converted.image);
+          if (converted.text) {
+            // Keep inlined files on their own lines, separate from surrounding text
+            textParts.push(`${textParts.length > 0 ? "\n\n" : ""}${converted.text}\n\n`);
+          }
+        }
+      }
+
+      const flat: FlatMessage = { role: "user", content: textParts.join("").trim() || "" };
+      if (images.length > 0) flat.images = images;
+      messages.push(flat);
     } else if (msg.role === "assistant") {
       const textParts: string[] = [];
       const toolCalls: FlatMessage["toolCalls"] = [];
@@ -266,6 +610,69 @@ function flattenPrompt(
   return { systemPrompt, messages };
 }
 
+// ─── Context-window budget ───────────────────────────────────────────────────
+
+function estimateMessageTokens(msg: FlatMessage): number {
+  let tokens = estimateTokens(msg.content);
+  if (msg.toolCalls) tokens += estimateTokens(JSON.stringify(msg.toolCalls));
+  if (msg.toolResults) {
+    for (const result of msg.toolResults) {
+      tokens += estimateTokens(result.content.map((c) => c.text).join(""));
+    }
+  }
+  if (msg.images) tokens += msg.images.length * IMAGE_TOKEN_ESTIMATE;
+  return tokens;
+}
+
+interface TrimResult {
+  history: FlatMessage[];
+  droppedMessages: number;
+  droppedTokens: number;
+  fits: boolean;
+}
+
+/**
+ * Drop the oldest history turns until the request fits `budget`.
+ * History may only be cut right before a plain user turn (no tool results),
+ * so a toolUse is never separated from its toolResult and history still
+ * starts with a user message. Dropping everything is only allowed when the
+ * current message doesn't answer a tool call from history.
+ */
+function trimHistoryToBudget(
+  history: FlatMessage[],
+  fixedTokens: number,
+  budget: number,
+  keepLastTurn: boolean,
+): TrimResult {
+  const costs = history.map(estimateMessageTokens);
+  let total = fixedTokens + costs.reduce((a, b) => a + b, 0);
+  if (total <= budget) {
+    return { history, droppedMessages: 0, droppedTokens: 0, fits: true };
+  }
+
+  let cut = 0;
+  let dropped = 0;
+  for (let i = 1; i <= history.length; i++) {
+    const atEnd = i === history.length;
+    const cleanUserTurn =
+      !atEnd && history[i].role === "user" && !history[i].toolResults?.length;
+    if (!cleanUserTurn && !(atEnd && !keepLastTurn)) continue;
+
+    const chunk = costs.slice(cut, i).reduce((a, b) => a + b, 0);
+    dropped += chunk;
+    total -= chunk;
+    cut = i;
+    if (total <= budget) break;
+  }
+
+  return {
+    history: history.slice(cut),
+    droppedMessages: cut,
+    droppedTokens: dropped,
+    fits: total <= budget,
+  };
+}
+
 // ─── Merge adjacent same-role messages ───────────────────────────────────────
 
 function mergeAdjacentMessages(messages: FlatMessage[]): FlatMessage[] {
@@ -294,6 +701,11 @@ function mergeAdjacentMessages(messages: FlatMessage[]): FlatMessage[] {
       if (msg.toolResults) {
         last.toolResults = [...(last.toolResults || []), ...msg.toolResults];
       }
+
+      // Merge images
+      if (msg.images) {
+        last.images = [...(last.images || []), ...msg.images];
+      }
     } else {
       merged.push({ ...msg });
     }
@@ -308,19 +720,24 @@ export function buildKiroPayload(
   options: LanguageModelV2CallOptions,
   modelId: string,
   profileArn: string,
-): KiroPayload {
-  const internalModelId = getInternalModelId(modelId);
-  const conversationId = generateConversationId();
-  const hasToolsInRequest = !!(options.tools && options.tools.length > 0);
+  payloadOptions: KiroPayloadOptions = {},
+): KiroPayloadResult {
+  const internalModelId = getInternalModelId(modelId, payloadOptions.modelAliases, payloadOptions.models);
+  const conversationId = getConversationId(options);
+  const warnings: LanguageModelV2CallWarning[] = [];
+  callSettingWarnings(options, warnings);
+  const toolChoice = applyToolChoice(options, warnings);
+  const hasToolsInRequest = !!(toolChoice.tools && toolChoice.tools.length > 0);
 
   // Flatten prompt
   const { systemPrompt: rawSystemPrompt, messages: rawMessages } = flattenPrompt(
     options.prompt,
     hasToolsInRequest,
+    warnings,
   );
 
   // Build tool specs
-  const toolData = buildToolSpecs(options.tools);
+  const toolData = buildToolSpecs(toolChoice.tools);
   let systemPrompt = rawSystemPrompt;
   if (toolData?.toolDocumentation) {
     systemPrompt = systemPrompt
@@ -336,9 +753,40 @@ export function buildKiroPayload(
   }
 
   // Split into history (all but last) and current (last)
-  const historyMessages = messages.slice(0, -1);
+  let historyMessages = messages.slice(0, -1);
   let currentMessage = messages[messages.length - 1];
 
+  // Keep the request inside the model's context window
+  if (payloadOptions.trimHistory !== false && historyMessages.length > 0) {
+    const contextWindow = getModelContextWindow(modelId, payloadOptions.modelAliases, payloadOptions.models);
+    const budget = Math.floor(contextWindow * CONTEXT_BUDGET_RATIO);
+    const fixedTokens =
+      estimateTokens(systemPrompt) +
+      estimateTokens(toolData ? JSON.stringify(toolData.specs) : "") +
+      estimateMessageTokens(currentMessage);
+    const trimmed = trimHistoryToBudget(
+      historyMessages,
+      fixedTokens,
+      budget,
+      !!currentMessage.toolResults?.length,
+    );
+    if (trimmed.droppedMessages > 0) {
+      historyMessages = trimmed.history;
+      warnings.push({
+        type: "other",
+        message:
+          `Dropped the ${trimmed.droppedMessages} oldest history messages ` +
+          `(~${trimmed.droppedTokens} tokens) to fit the ${contextWindow}-token context window of ${modelId}`,
+      });
+    }
+    if (!trimmed.fits) {
+      warnings.push({
+        type: "other",
+        message: `Request is still estimated above the ${budget}-token budget for ${modelId} after trimming history`,
+      });
+    }
+  }
+
   // Prepend system prompt to first user message
   if (systemPrompt) {
     if (historyMessages.length > 0 && historyMessages[0].role === "user") {
@@ -363,6 +811,9 @@ export function buildKiroPayload(
         modelId: internalModelId,
         origin: "AI_EDITOR",
       };
+      if (msg.images && msg.images.length > 0) {
+        userInput.images = msg.images;
+      }
       if (msg.toolResults && msg.toolResults.length > 0) {
         userInput.userInputMessageContext = { toolResults: msg.toolResults };
       }
@@ -381,6 +832,7 @@ export function buildKiroPayload(
   // Handle current message
   let currentContent = currentMessage.content || "";
   let currentToolResults: KiroToolResult[] | undefined;
+  let currentImages: KiroImage[] | undefined;
 
   if (currentMessage.role === "assistant") {
     // If last message is assistant, add to history and use "Continue"
@@ -390,9 +842,14 @@ export function buildKiroPayload(
     currentContent = "Continue";
   } else {
     currentToolResults = currentMessage.toolResults;
+    currentImages = currentMessage.images;
   }
 
   if (!currentContent) currentContent = "Continue";
+  const instructions = [toolChoice.instruction, jsonInstruction(options.responseFormat)].filter(Boolean);
+  if (instructions.length > 0) {
+    currentContent = `${currentContent}\n\n${instructions.join("\n\n")}`;
+  }
 
   // Build userInputMessage
   const userInputMessage: KiroUserInput = {
@@ -400,6 +857,9 @@ export function buildKiroPayload(
     modelId: internalModelId,
     origin: "AI_EDITOR",
   };
+  if (currentImages && currentImages.length > 0) {
+    userInputMessage.images = currentImages;
+  }
 
   // Add tool context
   const context: KiroUserInput["userInputMessageContext"] = {};
@@ -430,5 +890,5 @@ export function buildKiroPayload(
     payload.profileArn = profileArn;
   }
 
-  return payload;
+  return { payload, warnings, requiresToolCall: toolChoice.requiresToolCall };
 }
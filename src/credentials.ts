@@ -0,0 +1,352 @@
+// 00bx Kiro Gateway - Credential Sources
+// Where the refresh token comes from: environment variables, a credentials
+// file, the Kiro IDE's SSO cache or kiro-cli's SQLite DB, tried in order.
+
+import { join } from "node:path";
+import { homedir, platform } from "node:os";
+import { existsSync, readFileSync } from "node:fs";
+import { execSync } from "node:child_process";
+import { debugLog } from "./logger.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** What a source found; access tokens are optional and used until they expire */
+export interface ResolvedCredentials {
+  refreshToken: string;
+  profileArn?: string;
+  region?: string;
+  accessToken?: string;
+  /** Access token expiry (unix ms) */
+  expiresAt?: number;
+}
+
+export interface CredentialSourceResult {
+  credentials: ResolvedCredentials | null;
+  /** Why the source was or wasn't used, e.g. "KIRO_REFRESH_TOKEN is not set" */
+  reason: string;
+}
+
+export interface CredentialSource {
+  name: string;
+  /** Re-read before each token use, so logins and account switches in Kiro are picked up */
+  live?: boolean;
+  load(): CredentialSourceResult;
+}
+
+export interface CredentialSourceReport {
+  source: string;
+  used: boolean;
+  reason: string;
+}
+
+export interface DefaultCredentialSourceOptions {
+  /** JSON credentials file (default: $KIRO_CREDENTIALS_FILE) */
+  credentialsFile?: string;
+  /** Path to kiro-cli's data.sqlite3 (auto-detected by default) */
+  dbPath?: string;
+}
+
+interface DbTokenData {
+  refresh_token?: string;
+  profile_arn?: string;
+  region?: string;
+}
+
+interface SsoCacheToken {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
+  profileArn?: string;
+  region?: string;
+  authMethod?: string;
+}
+
+// Profile ARNs carry the region: arn:aws:codewhisperer:us-east-1:123456789012:profile/ABC
+function regionFromArn(arn: string | undefined): string | undefined {
+  return arn?.split(":")[3] || undefined;
+}
+
+// ─── Environment ─────────────────────────────────────────────────────────────
+
+export function envCredentialSource(env: NodeJS.ProcessEnv = process.env): CredentialSource {
+  return {
+    name: "env",
+    load() {
+      const refreshToken = env.KIRO_REFRESH_TOKEN?.trim();
+      if (!refreshToken) return { credentials: null, reason: "KIRO_REFRESH_TOKEN is not set" };
+      const profileArn = env.KIRO_PROFILE_ARN?.trim() || undefined;
+      return {
+        credentials: {
+          refreshToken,
+          profileArn,
+          region: env.KIRO_REGION?.trim() || regionFromArn(profileArn),
+        },
+        reason: "using KIRO_REFRESH_TOKEN",
+      };
+    },
+  };
+}
+
+// ─── Credentials file ────────────────────────────────────────────────────────
+
+/** `{ "refreshToken": "...", "profileArn": "...", "region": "..." }` (snake_case keys also accepted) */
+export function fileCredentialSource(path: string | undefined): CredentialSource {
+  return {
+    name: "credentials-file",
+    load() {
+      if (!path) return { credentials: null, reason: "no credentials file configured (KIRO_CREDENTIALS_FILE)" };
+      if (!existsSync(path)) return { credentials: null, reason: `${path} does not exist` };
+
+      let data: Record<string, string | undefined>;
+      try {
+        data = JSON.parse(readFileSync(path, "utf-8"));
+      } catch (err) {
+        return { credentials: null, reason: `${path} is not valid JSON (${(err as Error).message})` };
+      }
+
+      const refreshToken = data.refreshToken ?? data.refresh_token;
+      if (!refreshToken) return { credentials: null, reason: `${path} has no refreshToken` };
+      const profileArn = data.profileArn ?? data.profile_arn;
+      return {
+        credentials: { refreshToken, profileArn, region: data.region ?? regionFromArn(profileArn) },
+        reason: `using ${path}`,
+      };
+    },
+  };
+}
+
+// ─── Kiro IDE SSO cache ──────────────────────────────────────────────────────
+
+export function ssoCacheCredentialSource(
+  path = join(homedir(), ".aws", "sso", "cache", "kiro-auth-token.json"),
+): CredentialSource {
+  return {
+    name: "sso-cache",
+    live: true,
+    load() {
+      if (!existsSync(path)) return { credentials: null, reason: `${path} does not exist (Kiro IDE not signed in)` };
+
+      let data: SsoCacheToken;
+      try {
+        data = JSON.parse(readFileSync(path, "utf-8")) as SsoCacheToken;
+      } catch (err) {
+        return { credentials: null, reason: `${path} is not valid JSON (${(err as Error).message})` };
+      }
+
+      if (!data.refreshToken) return { credentials: null, reason: `${path} has no refreshToken` };
+      // Builder ID / Identity Center logins refresh through AWS OIDC, not Kiro's endpoint
+      if (data.authMethod && data.authMethod.toLowerCase() === "idc") {
+        return { credentials: null, reason: `${path} is an IAM Identity Center login, which Kiro's refresh endpoint can't renew` };
+      }
+
+      const expiresAt = data.expiresAt ? Date.parse(data.expiresAt) : NaN;
+      return {
+        credentials: {
+          refreshToken: data.refreshToken,
+          profileArn: data.profileArn,
+          region: data.region ?? regionFromArn(data.profileArn),
+          accessToken: data.accessToken,
+          expiresAt: Number.isFinite(expiresAt) ? expiresAt : undefined,
+        },
+        reason: `using ${path}`,
+      };
+    },
+  };
+}
+
+// ─── kiro-cli SQLite DB ──────────────────────────────────────────────────────
+
+export function findKiroDb(): string | null {
+  const home = homedir();
+  const candidates: string[] = [];
+
+  const os = platform();
+  if (os === "darwin") {
+    candidates.push(
+      join(home, "Library", "Application Support", "kiro-cli", "data.sqlite3"),
+    );
+  }
+  // Linux
+  candidates.push(join(home, ".config", "kiro-cli", "data.sqlite3"));
+  // Windows
+  if (os === "win32") {
+    candidates.push(
+      join(home, "AppData", "Roaming", "kiro-cli", "data.sqlite3"),
+    );
+  }
+
+  for (const p of candidates) {
+    if (existsSync(p)) return p;
+  }
+  return null;
+}
+
+const DB_TOKEN_KEYS = ["kirocli:social:token", "codewhisperer:odic:token"];
+
+interface SqliteStrategy {
+  name: string;
+  /** Throws if the strategy isn't available in this runtime */
+  read(dbPath: string): DbTokenData | null;
+}
+
+// Try multiple SQLite strategies for cross-runtime compatibility
+const SQLITE_STRATEGIES: SqliteStrategy[] = [
+  {
+    // Works in Bun — which OpenCode uses
+    name: "bun:sqlite",
+    read(dbPath) {
+      // Dynamic import of bun:sqlite — only works in Bun runtime
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { Database: BunDatabase } = require("bun:sqlite");
+      const db = new BunDatabase(dbPath, { readonly: true });
+      try {
+        for (const key of DB_TOKEN_KEYS) {
+          const row = db.prepare("SELECT value FROM auth_kv WHERE key=?").get(key) as { value: string } | undefined;
+          if (row) {
+            const data = JSON.parse(row.value) as DbTokenData;
+            if (data.refresh_token) return data;
+          }
+        }
+      } finally {
+        db.close();
+      }
+      return null;
+    },
+  },
+  {
+    // Node.js native addon
+    name: "better-sqlite3",
+    read(dbPath) {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const Database = require("better-sqlite3");
+      const db = new Database(dbPath, { readonly: true, timeout: 5000 });
+      try {
+        for (const key of DB_TOKEN_KEYS) {
+          const row = db.prepare("SELECT value FROM auth_kv WHERE key=?").get(key) as { value: string } | undefined;
+          if (row) {
+            const data = JSON.parse(row.value) as DbTokenData;
+            if (data.refresh_token) return data;
+          }
+        }
+      } finally {
+        db.close();
+      }
+      return null;
+    },
+  },
+  {
+    // Universal fallback
+    name: "sqlite3 CLI",
+    read(dbPath) {
+      for (const key of DB_TOKEN_KEYS) {
+        const result = execSync(
+          `sqlite3 "${dbPath}" "SELECT value FROM auth_kv WHERE key='${key}';"`,
+          { encoding: "utf-8", timeout: 5000, stdio: ["pipe", "pipe", "pipe"] },
+        ).trim();
+        if (result) {
+          const data = JSON.parse(result) as DbTokenData;
+          if (data.refresh_token) return data;
+        }
+      }
+      return null;
+    },
+  },
+];
+
+// The first strategy that works in this runtime decides
+function readTokenFromDb(dbPath: string): DbTokenData | null {
+  for (const strategy of SQLITE_STRATEGIES) {
+    try {
+      return strategy.read(dbPath);
+    } catch (err) {
+      // Not available or failed, try the next strategy
+      debugLog("credentials.sqlite", { dbPath, strategy: strategy.name, error: err });
+    }
+  }
+  return null;
+}
+
+export interface SqliteStrategyCheck {
+  strategy: string;
+  ok: boolean;
+  /** "token found", "no token" or the error the strategy hit */
+  detail: string;
+}
+
+/** Run every SQLite strategy against `dbPath`, for diagnostics */
+export function checkSqliteStrategies(dbPath: string): SqliteStrategyCheck[] {
+  return SQLITE_STRATEGIES.map((strategy) => {
+    try {
+      const data = strategy.read(dbPath);
+      return { strategy: strategy.name, ok: true, detail: data ? "token found" : "no token" };
+    } catch (err) {
+      const message = err instanceof Error ? err.message.split("\n")[0] : String(err);
+      return { strategy: strategy.name, ok: false, detail: message };
+    }
+  });
+}
+
+export function sqliteCredentialSource(dbPath?: string): CredentialSource {
+  return {
+    name: "kiro-cli",
+    live: true,
+    load() {
+      const path = dbPath ?? findKiroDb();
+      if (!path) return { credentials: null, reason: "kiro-cli data.sqlite3 not found" };
+      if (!existsSync(path)) return { credentials: null, reason: `${path} does not exist` };
+
+      const data = readTokenFromDb(path);
+      if (!data?.refresh_token) {
+        return { credentials: null, reason: `no token in ${path} (not logged in, or no SQLite reader available)` };
+      }
+      return {
+        credentials: {
+          refreshToken: data.refresh_token,
+          profileArn: data.profile_arn,
+          region: data.region,
+        },
+        reason: `using ${path}`,
+      };
+    },
+  };
+}
+
+// ─── Chain ───────────────────────────────────────────────────────────────────
+
+/** Environment → credentials file → Kiro IDE SSO cache → kiro-cli DB */
+export function defaultCredentialSources(options: DefaultCredentialSourceOptions = {}): CredentialSource[] {
+  return [
+    envCredentialSource(),
+    fileCredentialSource(options.credentialsFile ?? process.env.KIRO_CREDENTIALS_FILE),
+    ssoCacheCredentialSource(),
+    sqliteCredentialSource(options.dbPath),
+  ];
+}
+
+/** Try each source in order; the report says why each one was or wasn't used */
+export function resolveCredentials(sources: CredentialSource[]): {
+  credentials: ResolvedCredentials | null;
+  source: CredentialSource | null;
+  report: CredentialSourceReport[];
+} {
+  const report: CredentialSourceReport[] = [];
+  let found: { credentials: ResolvedCredentials; source: CredentialSource } | null = null;
+
+  for (const source of sources) {
+    if (found) {
+      report.push({ source: source.name, used: false, reason: `skipped, using ${found.source.name}` });
+      continue;
+    }
+    let result: CredentialSourceResult;
+    try {
+      result = source.load();
+    } catch (err) {
+      result = { credentials: null, reason: `failed: ${err instanceof Error ? err.message : String(err)}` };
+    }
+    report.push({ source: source.name, used: !!result.credentials, reason: result.reason });
+    if (result.credentials) found = { credentials: result.credentials, source };
+  }
+
+  debugLog("credentials.resolve", { source: found?.source.name ?? null, report });
+  return { credentials: found?.credentials ?? null, source: found?.source ?? null, report };
+}
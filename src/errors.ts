@@ -0,0 +1,176 @@
+// 00bx Kiro Gateway - Error Classification
+// Maps Kiro HTTP errors and in-stream exception frames to AI SDK errors.
+
+import { APICallError } from "@ai-sdk/provider";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type KiroErrorReason =
+  | "auth"
+  | "quota"
+  | "throttled"
+  | "context_overflow"
+  | "model_unavailable"
+  | "invalid_request"
+  | "server_error"
+  | "network"
+  | "unknown";
+
+/** Attached to every Kiro APICallError as `error.data` */
+export interface KiroErrorData {
+  reason: KiroErrorReason;
+  requestId?: string;
+  /** `:exception-type` of an in-stream exception frame, or the `__type` of an error body */
+  exceptionType?: string;
+}
+
+// ─── Classification ──────────────────────────────────────────────────────────
+
+const CONTEXT_OVERFLOW_PATTERN =
+  /CONTENT_LENGTH_EXCEEDS_THRESHOLD|input is too long|too many tokens|context (length|window|limit)|exceeds? the maximum/i;
+const MODEL_UNAVAILABLE_PATTERN =
+  /INVALID_MODEL_ID|model[^.]*(not (available|supported|found)|unavailable|disabled)|ModelNotAvailable/i;
+// Kiro reports exhausted free-tier credits as a 4xx with one of these in the body
+const QUOTA_PATTERN = /quota|MONTHLY_REQUEST_COUNT|ServiceQuotaExceeded|limit exceeded/i;
+const THROTTLED_PATTERN = /Throttling|too many requests|rate exceeded/i;
+const AUTH_PATTERN = /AccessDenied|ExpiredToken|Unauthorized|invalid (bearer |access )?token|not authorized/i;
+const SERVER_PATTERN = /InternalServer|ServiceUnavailable|InternalFailure/i;
+
+export function classifyKiroError(status: number | undefined, text: string): KiroErrorReason {
+  if (CONTEXT_OVERFLOW_PATTERN.test(text)) return "context_overflow";
+  if (MODEL_UNAVAILABLE_PATTERN.test(text)) return "model_unavailable";
+  if (status === 429 || THROTTLED_PATTERN.test(text)) return "throttled";
+  if (status !== 403 && (status === undefined || status < 500) && QUOTA_PATTERN.test(text)) return "quota";
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(text)) return "auth";
+  if ((status !== undefined && status >= 500) || SERVER_PATTERN.test(text)) return "server_error";
+  if (status !== undefined && status >= 400) return "invalid_request";
+  return "unknown";
+}
+
+function isRetryableReason(reason: KiroErrorReason): boolean {
+  return reason === "throttled" || reason === "server_error" || reason === "network";
+}
+
+const REASON_LABELS: Record<KiroErrorReason, string> = {
+  auth: "authentication failed",
+  quota: "quota exceeded",
+  throttled: "throttled",
+  context_overflow: "context too long",
+  model_unavailable: "model unavailable",
+  invalid_request: "invalid request",
+  server_error: "server error",
+  network: "network error",
+  unknown: "error",
+};
+
+// Kiro error bodies are usually JSON with a "message" (and sometimes "reason" / "__type")
+function parseErrorBody(body: string): { message: string; type?: string } {
+  try {
+    const data = JSON.parse(body) as Record<string, unknown>;
+    const message = data.message ?? data.Message ?? data.errorMessage;
+    const type = data.__type ?? data.reason;
+    return {
+      message: typeof message === "string" ? message : body,
+      type: typeof type === "string" ? type : undefined,
+    };
+  } catch {
+    return { message: body };
+  }
+}
+
+function getRequestId(headers: Record<string, string> | undefined): string | undefined {
+  if (!headers) return undefined;
+  return headers["x-amzn-requestid"] ?? headers["x-amz-request-id"] ?? headers["x-amzn-request-id"];
+}
+
+export function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    record[key.toLowerCase()] = value;
+  });
+  return record;
+}
+
+// ─── Error factories ─────────────────────────────────────────────────────────
+
+/** Error for a non-2xx response from the Kiro API or refresh endpoint */
+export function createKiroApiError(params: {
+  url: string;
+  requestBody?: unknown;
+  status: number;
+  body: string;
+  headers?: Record<string, string>;
+}): APICallError {
+  const { message, type } = parseErrorBody(params.body);
+  const reason = classifyKiroError(params.status, `${type ?? ""} ${params.body}`);
+  const requestId = getRequestId(params.headers);
+
+  return new APICallError({
+    message: `Kiro API ${REASON_LABELS[reason]} (${params.status}): ${message || "(empty body)"}${requestId ? ` [request ${requestId}]` : ""}`,
+    url: params.url,
+    requestBodyValues: params.requestBody,
+    statusCode: params.status,
+    responseHeaders: params.headers,
+    responseBody: params.body,
+    isRetryable: isRetryableReason(reason),
+    data: { reason, requestId, exceptionType: type } satisfies KiroErrorData,
+  });
+}
+
+/** Error for a request that never got a response (timeout, DNS, connection reset) */
+export function createKiroNetworkError(url: string, requestBody: unknown, cause: unknown): APICallError {
+  const detail = cause instanceof Error ? cause.message : String(cause);
+  return new APICallError({
+    message: `Kiro API network error: ${detail}`,
+    url,
+    requestBodyValues: requestBody,
+    cause,
+    isRetryable: true,
+    data: { reason: "network" } satisfies KiroErrorData,
+  });
+}
+
+/** Error for an exception frame received in the middle of a 200 response stream */
+export function createKiroStreamError(params: {
+  url: string;
+  exceptionType: string;
+  message: string;
+  headers?: Record<string, string>;
+}): APICallError {
+  const reason = classifyKiroError(undefined, `${params.exceptionType} ${params.message}`);
+  const requestId = getRequestId(params.headers);
+
+  return new APICallError({
+    message: `Kiro stream ${REASON_LABELS[reason]} (${params.exceptionType}): ${params.message}`,
+    url: params.url,
+    requestBodyValues: undefined,
+    statusCode: 200,
+    responseHeaders: params.headers,
+    responseBody: params.message,
+    isRetryable: isRetryableReason(reason),
+    data: { reason, requestId, exceptionType: params.exceptionType } satisfies KiroErrorData,
+  });
+}
+
+/** Error for a request refused locally because the account's circuit breaker is open */
+export function createKiroCircuitOpenError(params: {
+  url: string;
+  account: string;
+  retryInMs: number;
+}): APICallError {
+  const seconds = Math.ceil(params.retryInMs / 1000);
+  return new APICallError({
+    message: `Kiro API ${REASON_LABELS.throttled}: account "${params.account}" was throttled repeatedly; not sending requests for ${seconds}s`,
+    url: params.url,
+    requestBodyValues: undefined,
+    statusCode: 429,
+    responseHeaders: { "retry-after": String(seconds) },
+    isRetryable: false,
+    data: { reason: "throttled" } satisfies KiroErrorData,
+  });
+}
+
+export function getKiroErrorReason(error: unknown): KiroErrorReason | undefined {
+  if (!APICallError.isInstance(error)) return undefined;
+  return (error.data as KiroErrorData | undefined)?.reason;
+}
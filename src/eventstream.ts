@@ -0,0 +1,235 @@
+// 00bx Kiro Gateway - AWS Event Stream Codec
+// Binary framing used by CodeWhisperer's streaming API (application/vnd.amazon.eventstream).
+// Each message: [total_len:4][headers_len:4][prelude_crc:4][headers][payload][msg_crc:4]
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type EventStreamHeaderValue = boolean | number | bigint | string | Uint8Array | Date;
+
+export interface EventStreamMessage {
+  headers: Record<string, EventStreamHeaderValue>;
+  payload: Uint8Array;
+}
+
+export class EventStreamDecodeError extends Error {
+  constructor(
+    message: string,
+    /** Byte offset of the bad frame within the whole response stream */
+    readonly offset: number,
+    /** First bytes of the bad frame, hex-encoded, for diagnosis */
+    readonly frameHead: string,
+  ) {
+    super(`${message} (at byte ${offset}, frame starts ${frameHead})`);
+    this.name = "EventStreamDecodeError";
+  }
+}
+
+// ─── CRC32 (IEEE 802.3, same polynomial as zlib) ─────────────────────────────
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ─── Header parsing ──────────────────────────────────────────────────────────
+
+const PRELUDE_LENGTH = 12;
+const MESSAGE_CRC_LENGTH = 4;
+const MIN_MESSAGE_LENGTH = PRELUDE_LENGTH + MESSAGE_CRC_LENGTH;
+const MAX_MESSAGE_LENGTH = 16 * 1024 * 1024; // AWS limit
+
+const utf8 = new TextDecoder("utf-8");
+
+function parseHeaders(view: DataView, bytes: Uint8Array, start: number, end: number): Record<string, EventStreamHeaderValue> {
+  const headers: Record<string, EventStreamHeaderValue> = {};
+  let pos = start;
+
+  const need = (n: number) => {
+    if (pos + n > end) throw new Error("header block truncated");
+  };
+
+  while (pos < end) {
+    need(1);
+    const nameLen = view.getUint8(pos);
+    pos += 1;
+    need(nameLen + 1);
+    const name = utf8.decode(bytes.subarray(pos, pos + nameLen));
+    pos += nameLen;
+    const type = view.getUint8(pos);
+    pos += 1;
+
+    let value: EventStreamHeaderValue;
+    switch (type) {
+      case 0: value = true; break;
+      case 1: value = false; break;
+      case 2: need(1); value = view.getInt8(pos); pos += 1; break;
+      case 3: need(2); value = view.getInt16(pos); pos += 2; break;
+      case 4: need(4); value = view.getInt32(pos); pos += 4; break;
+      case 5: need(8); value = view.getBigInt64(pos); pos += 8; break;
+      case 6:
+      case 7: {
+        need(2);
+        const len = view.getUint16(pos);
+        pos += 2;
+        need(len);
+        const raw = bytes.subarray(pos, pos + len);
+        value = type === 7 ? utf8.decode(raw) : raw.slice();
+        pos += len;
+        break;
+      }
+      case 8: need(8); value = new Date(Number(view.getBigInt64(pos))); pos += 8; break;
+      case 9: {
+        need(16);
+        const hex = Array.from(bytes.subarray(pos, pos + 16), (b) => b.toString(16).padStart(2, "0")).join("");
+        value = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+        pos += 16;
+        break;
+      }
+      default:
+        throw new Error(`unknown header value type ${type} for header '${name}'`);
+    }
+    headers[name] = value;
+  }
+
+  return headers;
+}
+
+// ─── Decoder ─────────────────────────────────────────────────────────────────
+
+export class EventStreamDecoder {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private consumed = 0; // bytes decoded so far, for error offsets
+
+  /** Append bytes and return every complete message. Throws EventStreamDecodeError on a corrupt frame. */
+  feed(chunk: Uint8Array): EventStreamMessage[] {
+    if (chunk.length > 0) {
+      const merged = new Uint8Array(this.buffer.length + chunk.length);
+      merged.set(this.buffer);
+      merged.set(chunk, this.buffer.length);
+      this.buffer = merged;
+    }
+
+    const messages: EventStreamMessage[] = [];
+    const bytes = this.buffer;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 0;
+
+    while (offset + PRELUDE_LENGTH <= bytes.length) {
+      const fail = (message: string): never => {
+        const head = Array.from(bytes.subarray(offset, offset + 16), (b) => b.toString(16).padStart(2, "0")).join("");
+        throw new EventStreamDecodeError(message, this.consumed + offset, head);
+      };
+
+      const totalLen = view.getUint32(offset);
+      const headersLen = view.getUint32(offset + 4);
+      const preludeCrc = view.getUint32(offset + 8);
+
+      const actualPreludeCrc = crc32(bytes, offset, offset + 8);
+      if (actualPreludeCrc !== preludeCrc) {
+        fail(`Prelude CRC mismatch: expected ${preludeCrc.toString(16)}, got ${actualPreludeCrc.toString(16)}`);
+      }
+      if (totalLen < MIN_MESSAGE_LENGTH || totalLen > MAX_MESSAGE_LENGTH) {
+        fail(`Invalid message length ${totalLen}`);
+      }
+      if (headersLen > totalLen - MIN_MESSAGE_LENGTH) {
+        fail(`Header length ${headersLen} exceeds message length ${totalLen}`);
+      }
+
+      // Incomplete message, wait for more data
+      if (offset + totalLen > bytes.length) break;
+
+      const crcOffset = offset + totalLen - MESSAGE_CRC_LENGTH;
+      const messageCrc = view.getUint32(crcOffset);
+      const actualMessageCrc = crc32(bytes, offset, crcOffset);
+      if (actualMessageCrc !== messageCrc) {
+        fail(`Message CRC mismatch: expected ${messageCrc.toString(16)}, got ${actualMessageCrc.toString(16)}`);
+      }
+
+      const headersStart = offset + PRELUDE_LENGTH;
+      const payloadStart = headersStart + headersLen;
+      let headers: Record<string, EventStreamHeaderValue> = {};
+      try {
+        headers = parseHeaders(view, bytes, headersStart, payloadStart);
+      } catch (err) {
+        fail(`Malformed headers: ${(err as Error).message}`);
+      }
+
+      messages.push({ headers, payload: bytes.slice(payloadStart, crcOffset) });
+      offset += totalLen;
+    }
+
+    // Keep remaining unprocessed bytes
+    this.consumed += offset;
+    this.buffer = offset < bytes.length ? bytes.slice(offset) : new Uint8Array(0);
+    return messages;
+  }
+
+  /** Bytes of an incomplete trailing message still waiting for data */
+  get bufferedBytes(): number {
+    return this.buffer.length;
+  }
+
+  reset(): void {
+    this.buffer = new Uint8Array(0);
+    this.consumed = 0;
+  }
+}
+
+// ─── Encoder ─────────────────────────────────────────────────────────────────
+
+const utf8Encoder = new TextEncoder();
+const STRING_HEADER_TYPE = 7;
+
+/** Encode one message with string headers (all Kiro uses) — for mocks and fixtures */
+export function encodeEventStreamMessage(
+  headers: Record<string, string>,
+  payload: Uint8Array | string,
+): Uint8Array {
+  const body = typeof payload === "string" ? utf8Encoder.encode(payload) : payload;
+
+  const headerParts: Uint8Array[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    const nameBytes = utf8Encoder.encode(name);
+    const valueBytes = utf8Encoder.encode(value);
+    const part = new Uint8Array(1 + nameBytes.length + 1 + 2 + valueBytes.length);
+    const view = new DataView(part.buffer);
+    part[0] = nameBytes.length;
+    part.set(nameBytes, 1);
+    part[1 + nameBytes.length] = STRING_HEADER_TYPE;
+    view.setUint16(2 + nameBytes.length, valueBytes.length);
+    part.set(valueBytes, 4 + nameBytes.length);
+    headerParts.push(part);
+  }
+  const headersLen = headerParts.reduce((n, p) => n + p.length, 0);
+
+  const totalLen = PRELUDE_LENGTH + headersLen + body.length + MESSAGE_CRC_LENGTH;
+  const message = new Uint8Array(totalLen);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, totalLen);
+  view.setUint32(4, headersLen);
+  view.setUint32(8, crc32(message, 0, 8));
+
+  let offset = PRELUDE_LENGTH;
+  for (const part of headerParts) {
+    message.set(part, offset);
+    offset += part.length;
+  }
+  message.set(body, offset);
+  view.setUint32(totalLen - MESSAGE_CRC_LENGTH, crc32(message, 0, totalLen - MESSAGE_CRC_LENGTH));
+  return message;
+}
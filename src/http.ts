@@ -0,0 +1,107 @@
+// 00bx Kiro Gateway - HTTP Helpers
+// Request parsing and JSON/SSE responses shared by the server's API dialects.
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { LanguageModelV2CallWarning, LanguageModelV2FilePart } from "@ai-sdk/provider";
+import type { KiroAccountPool } from "./accounts.js";
+import type { KiroModelCatalog } from "./models.js";
+import { debugLog } from "./logger.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ServerContext {
+  accounts: KiroAccountPool;
+  models: KiroModelCatalog;
+  apiHost?: string;
+}
+
+// ─── Errors ──────────────────────────────────────────────────────────────────
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// ─── Request/response helpers ────────────────────────────────────────────────
+
+/** Parse a URL from the request body, answering 400 instead of throwing a TypeError */
+export function parseRequestUrl(url: string, field: string): URL {
+  try {
+    return new URL(url);
+  } catch {
+    throw new HttpError(400, `Invalid URL in ${field}: ${JSON.stringify(url.slice(0, 200))}`);
+  }
+}
+
+/**
+ * A file part for an image given by URL. Only inline data: URLs are accepted:
+ * Kiro can't fetch remote content, and dropping it would answer as if it had
+ * been seen — clients don't read X-Kiro-Warnings — so remote URLs are a 400.
+ */
+export function inlineImageFromUrl(url: unknown, field: string, filename?: string): LanguageModelV2FilePart {
+  if (typeof url !== "string" || !url) throw new HttpError(400, `Missing required field: ${field}`);
+  const parsed = parseRequestUrl(url, field);
+  if (parsed.protocol !== "data:") {
+    throw new HttpError(400, `Remote image URLs are not supported (${field}); send the image inline as base64`);
+  }
+  const match = /^data:([^;,]+)/.exec(url);
+  return { type: "file", mediaType: match?.[1] ?? "image/*", data: parsed, filename };
+}
+
+function formatWarning(warning: LanguageModelV2CallWarning): string {
+  if (warning.type === "other") return warning.message;
+  const subject = warning.type === "unsupported-setting" ? warning.setting : warning.tool.name;
+  return `${subject} is not supported${warning.details ? ` (${warning.details})` : ""}`;
+}
+
+/**
+ * Tell the client what the conversion dropped or ignored (e.g. images passed
+ * by remote URL) in an X-Kiro-Warnings header. Call before the response starts.
+ */
+export function reportWarnings(res: ServerResponse, warnings: LanguageModelV2CallWarning[]): void {
+  if (warnings.length === 0) return;
+  const messages = warnings.map(formatWarning);
+  debugLog("server.warnings", { warnings: messages });
+  // Header values must be printable ASCII
+  res.setHeader("X-Kiro-Warnings", messages.join("; ").replace(/[^\x20-\x7e]/g, "?"));
+}
+
+export async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  if (!raw.trim()) throw new HttpError(400, "Request body is empty");
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new HttpError(400, "Request body must be a JSON object");
+    }
+    return parsed as Record<string, unknown>;
+  } catch (err) {
+    if (err instanceof HttpError) throw err;
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function startSse(res: ServerResponse): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+}
+
+export function writeSse(res: ServerResponse, data: unknown, event?: string): void {
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  res.write(`${event ? `event: ${event}\n` : ""}data: ${payload}\n\n`);
+}
@@ -4,285 +4,508 @@
 import type {
   LanguageModelV2,
   LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
   LanguageModelV2StreamPart,
+  LanguageModelV2ToolCall,
   ProviderV2,
 } from "@ai-sdk/provider";
 
+import { KiroAccountPool } from "./accounts.js";
+import type { AccountHealth } from "./accounts.js";
 import { KiroAuthManager } from "./auth.js";
-import { buildKiroPayload } from "./converter.js";
-import { getKiroApiHost } from "./config.js";
-import { getKiroHeaders } from "./utils.js";
+import type { CredentialSourceReport } from "./credentials.js";
+import { KiroModelCatalog } from "./models.js";
+import type { KiroModelInfo } from "./models.js";
+import {
+  buildKiroPayload,
+  SUPPORTED_URLS,
+  withJsonCorrection,
+  withToolCallReminder,
+} from "./converter.js";
+import type { KiroPayloadOptions } from "./converter.js";
+import { makeKiroRequest, readKiroEvents } from "./client.js";
+import type { KiroRequestOptions, KiroRequestStats } from "./client.js";
+import { OutputLimiter } from "./limits.js";
+import type { OutputLimitReason } from "./limits.js";
+import { debugLog, enableDebugLog } from "./logger.js";
+import { createRecordingFetch } from "./replay.js";
+import { parseJsonReply, validateJsonSchema } from "./schema.js";
 import { AwsEventStreamParser } from "./streaming.js";
-import type { CollectedToolCall } from "./streaming.js";
-
-// ─── Singleton auth manager ──────────────────────────────────────────────────
-
-let authManager: KiroAuthManager | null = null;
-
-function getAuthManager(): KiroAuthManager {
-  if (!authManager) {
-    authManager = new KiroAuthManager();
-  }
-  return authManager;
-}
-
-// ─── Make API request to Kiro ────────────────────────────────────────────────
-
-async function makeKiroRequest(
-  auth: KiroAuthManager,
-  payload: Record<string, unknown>,
-  retries = 3,
-): Promise<Response> {
-  const url = `${getKiroApiHost(auth.getRegion())}/generateAssistantResponse`;
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < retries; attempt++) {
-    const token = attempt === 0
-      ? await auth.getAccessToken()
-      : await auth.forceRefresh();
-
-    const headers = getKiroHeaders(auth.fingerprint, token);
-    const res = await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(payload),
-    });
-
-    if (res.ok) return res;
+import type {
+  CollectedToolCall,
+  ParsedEvent,
+  ToolInputData,
+  ToolStartData,
+  ToolStopData,
+} from "./streaming.js";
+import { buildUsage, createUsageData, recordUsageEvent } from "./usage.js";
+import type { KiroUsageData } from "./usage.js";
+import type { KiroHooks, KiroProviderSettings } from "./settings.js";
 
-    const status = res.status;
-    const body = await res.text().catch(() => "");
+// ─── Convert tool calls to AI SDK format ─────────────────────────────────────
 
-    if (status === 403) {
-      // Token expired, retry with fresh token
-      lastError = new Error(`Kiro API 403: ${body}`);
-      continue;
+// Check parsed arguments against the tool's inputSchema; problems go in `inputErrors`
+function validateToolCalls(
+  calls: CollectedToolCall[],
+  tools: LanguageModelV2CallOptions["tools"],
+): CollectedToolCall[] {
+  return calls.map((tc) => {
+    let checked = tc;
+    if (!tc.inputErrors) {
+      const tool = tools?.find((t) => t.type === "function" && t.name === tc.name);
+      const errors = tool?.type === "function"
+        ? validateJsonSchema(JSON.parse(tc.arguments), tool.inputSchema as Record<string, unknown>)
+        : [];
+      if (errors.length > 0) checked = { ...tc, inputErrors: errors };
     }
-
-    if (status === 429 || status >= 500) {
-      // Rate limit or server error, wait and retry
-      const delay = Math.min(1000 * 2 ** attempt, 8000);
-      await new Promise((r) => setTimeout(r, delay));
-      lastError = new Error(`Kiro API ${status}: ${body}`);
-      continue;
+    if (checked.repaired || checked.inputErrors) {
+      debugLog("tool.input", { tool: tc.name, repaired: !!checked.repaired, errors: checked.inputErrors });
     }
-
-    // Client error (4xx) — don't retry
-    throw new Error(`Kiro API error ${status}: ${body}`);
-  }
-
-  throw lastError ?? new Error("Kiro API request failed after retries");
+    return checked;
+  });
 }
 
-// ─── Convert tool calls to AI SDK format ─────────────────────────────────────
-
-function toolCallsToContent(
-  calls: CollectedToolCall[],
-): Array<{ type: "tool-call"; toolCallId: string; toolName: string; input: string }> {
+function toolCallsToContent(calls: CollectedToolCall[]): LanguageModelV2ToolCall[] {
   return calls.map((tc) => ({
     type: "tool-call" as const,
     toolCallId: tc.id,
     toolName: tc.name,
     input: tc.arguments,
+    // Flag repaired or unusable input so the caller can report it back to the model
+    ...(tc.repaired || tc.inputErrors
+      ? {
+        providerMetadata: {
+          kiro: {
+            repairedInput: !!tc.repaired,
+            ...(tc.inputErrors ? { inputErrors: tc.inputErrors } : {}),
+          },
+        },
+      }
+      : {}),
   }));
 }
 
-// ─── Create Kiro Language Model ──────────────────────────────────────────────
+const TOOL_CHOICE_UNMET_WARNING: LanguageModelV2CallWarning = {
+  type: "other",
+  message: "toolChoice required a tool call, but the model answered with text only after a re-prompt",
+};
+
+function getFinishReason(
+  toolCalls: CollectedToolCall[],
+  limitReason: OutputLimitReason | null,
+): "stop" | "tool-calls" | "length" {
+  if (toolCalls.length > 0) return "tool-calls";
+  return limitReason === "length" ? "length" : "stop";
+}
 
-function createKiroLanguageModel(modelId: string): LanguageModelV2 {
-  const auth = getAuthManager();
+// Replay a finished generation as stream parts
+function resultToStream(
+  result: Awaited<ReturnType<LanguageModelV2["doGenerate"]>>,
+): ReadableStream<LanguageModelV2StreamPart> {
+  return new ReadableStream<LanguageModelV2StreamPart>({
+    start(controller) {
+      controller.enqueue({ type: "stream-start", warnings: result.warnings });
+      result.content.forEach((part, i) => {
+        if (part.type === "text") {
+          const id = `text-${i}`;
+          controller.enqueue({ type: "text-start", id });
+          controller.enqueue({ type: "text-delta", id, delta: part.text });
+          controller.enqueue({ type: "text-end", id });
+        } else if (part.type === "tool-call") {
+          controller.enqueue(part);
+        }
+      });
+      controller.enqueue({
+        type: "finish",
+        finishReason: result.finishReason,
+        usage: result.usage,
+        providerMetadata: result.providerMetadata,
+      });
+      controller.close();
+    },
+  });
+}
 
-  return {
-    specificationVersion: "v2",
-    provider: "00bx-kiro-gateway",
-    modelId,
-    supportedUrls: {},
+// Observer hooks must not break a generation
+async function runObserverHook<T>(hooks: KiroHooks | undefined, name: "onResponse" | "onError", info: T): Promise<void> {
+  const hook = hooks?.[name] as ((info: T) => void | Promise<void>) | undefined;
+  if (!hook) return;
+  try {
+    await hook(info);
+  } catch (err) {
+    debugLog("hook.error", { hook: name, error: err });
+  }
+}
 
-    // ─── Non-streaming generation ──────────────────────────────────────
-    async doGenerate(options: LanguageModelV2CallOptions) {
-      const profileArn = auth.getProfileArn() || "";
-      const payload = buildKiroPayload(options, modelId, profileArn);
-
-      const response = await makeKiroRequest(auth, payload as unknown as Record<string, unknown>);
-
-      // Kiro always returns a stream, even for non-streaming requests.
-      // We collect the full stream into a single response.
-      const parser = new AwsEventStreamParser();
-      const body = response.body;
-      if (!body) throw new Error("Empty response from Kiro API");
-
-      const textParts: string[] = [];
-      const reader = body.getReader();
-
-      // Idle timeout: cancel reader if no data for 15s (Kiro may keep connection open)
-      let idleTimer: ReturnType<typeof setTimeout> | null = null;
-      const resetIdleTimer = () => {
-        if (idleTimer) clearTimeout(idleTimer);
-        idleTimer = setTimeout(() => {
-          reader.cancel().catch(() => {});
-        }, 15_000);
-      };
+// ─── Create Kiro Language Model ──────────────────────────────────────────────
 
-      try {
-        resetIdleTimer();
+function createKiroLanguageModel(
+  modelId: string,
+  accounts: KiroAccountPool,
+  models: KiroModelCatalog,
+  settings: KiroProviderSettings,
+): LanguageModelV2 {
+  const requestOptions: KiroRequestOptions = {
+    retry: settings.retry,
+    apiHost: settings.apiHost,
+    headers: settings.headers,
+    firstByteTimeoutMs: settings.firstByteTimeoutMs,
+    fetch: settings.fetch,
+  };
+  const payloadOptions: KiroPayloadOptions = {
+    modelAliases: settings.modelAliases,
+    trimHistory: settings.trimHistory,
+    models,
+  };
 
-        // eslint-disable-next-line no-constant-condition
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+  const { hooks } = settings;
+
+  // Build the payload for `options` and send it (with retries and account rotation).
+  // Callers read the response, then call `done()` — with the error if reading failed.
+  const sendRequest = async (options: LanguageModelV2CallOptions) => {
+    // Fail fast on model IDs Kiro doesn't offer, before any retries
+    await models.assertKnown(modelId, options.abortSignal);
+    const profileArn = accounts.getProfileArn() || "";
+    const built = buildKiroPayload(options, modelId, profileArn, payloadOptions);
+    const payload = (await hooks?.onRequest?.(built.payload, { modelId, callOptions: options })) ?? built.payload;
+
+    const stats: KiroRequestStats = { attempts: 0, account: null };
+    const started = Date.now();
+    const fail = (error: unknown) => runObserverHook(hooks, "onError", {
+      modelId,
+      payload,
+      attempts: stats.attempts,
+      account: stats.account,
+      durationMs: Date.now() - started,
+      error,
+    });
 
-          resetIdleTimer();
+    let response: Response;
+    try {
+      response = await makeKiroRequest(
+        accounts,
+        payload as unknown as Record<string, unknown>,
+        { ...requestOptions, abortSignal: options.abortSignal, stats },
+      );
+    } catch (err) {
+      await fail(err);
+      throw err;
+    }
+    const timeToFirstByteMs = Date.now() - started;
+
+    const done = async (error?: unknown) => {
+      if (error !== undefined) return fail(error);
+      await runObserverHook(hooks, "onResponse", {
+        modelId,
+        payload,
+        attempts: stats.attempts,
+        account: stats.account,
+        status: response.status,
+        timeToFirstByteMs,
+        durationMs: Date.now() - started,
+      });
+    };
+    return { ...built, payload, response, done };
+  };
+  const readOptions = (options: LanguageModelV2CallOptions) => ({
+    idleTimeoutMs: settings.idleTimeoutMs,
+    signal: options.abortSignal,
+    transform: hooks?.onEvent,
+  });
+
+  // Kiro always returns a stream, even for non-streaming requests.
+  // We collect the full stream into a single response.
+  const collectResponse = async (
+    options: LanguageModelV2CallOptions,
+    usageData: KiroUsageData = createUsageData(),
+  ) => {
+    const { payload, warnings, requiresToolCall, response, done } = await sendRequest(options);
+    const parser = new AwsEventStreamParser();
+    const limiter = new OutputLimiter(options);
+    const textParts: string[] = [];
+
+    try {
+      await readKiroEvents(response, parser, (event) => {
+        if (event.type === "content") {
+          textParts.push(limiter.push(event.data as string));
+          return !limiter.stopped;
+        }
+        recordUsageEvent(usageData, event);
+      }, readOptions(options));
+    } catch (err) {
+      await done(err);
+      throw err;
+    }
+    await done();
+    textParts.push(limiter.flush());
+
+    return {
+      payload,
+      warnings,
+      requiresToolCall,
+      text: textParts.join(""),
+      toolCalls: validateToolCalls(parser.getToolCalls(), options.tools),
+      limitReason: limiter.reason,
+      usageData,
+    };
+  };
 
-          const events = parser.feed(value);
-          for (const event of events) {
-            if (event.type === "content") {
-              textParts.push(event.data as string);
-            }
-          }
+  // Full (non-streaming) generation, including the toolChoice and JSON-mode retries
+  const generate = async (options: LanguageModelV2CallOptions) => {
+    let result = await collectResponse(options);
+    const warnings = result.warnings;
+
+    // toolChoice asked for a tool call but the model answered in text: re-prompt once
+    if (result.requiresToolCall && result.toolCalls.length === 0) {
+      const first = result;
+      result = await collectResponse(
+        { ...options, prompt: withToolCallReminder(options.prompt, first.text) },
+        first.usageData,
+      );
+      if (result.toolCalls.length === 0) warnings.push(TOOL_CHOICE_UNMET_WARNING);
+    }
 
-          if (parser.isComplete()) {
-            reader.cancel().catch(() => {});
-            break;
-          }
+    // JSON mode: check the reply against the requested schema, with one corrective retry
+    let fullText = result.text;
+    const { responseFormat } = options;
+    if (responseFormat?.type === "json" && result.toolCalls.length === 0) {
+      let parsed = parseJsonReply(result.text, responseFormat.schema);
+      if (parsed.errors.length > 0) {
+        const first = result;
+        result = await collectResponse(
+          { ...options, prompt: withJsonCorrection(options.prompt, first.text, parsed.errors) },
+          first.usageData,
+        );
+        parsed = parseJsonReply(result.text, responseFormat.schema);
+        if (parsed.errors.length > 0) {
+          warnings.push({
+            type: "other",
+            message: `Reply does not match the requested JSON format after a retry: ${parsed.errors.slice(0, 5).join("; ")}`,
+          });
         }
-      } catch {
-        // Reader cancelled or stream error — use whatever was collected
-      } finally {
-        if (idleTimer) clearTimeout(idleTimer);
-        reader.releaseLock();
       }
+      fullText = parsed.json;
+    }
 
-      const fullText = textParts.join("");
-      const toolCalls = parser.getToolCalls();
+    const { toolCalls, usageData, payload } = result;
 
-      // Build content array
-      const content: Array<
-        | { type: "text"; text: string }
-        | { type: "tool-call"; toolCallId: string; toolName: string; input: string }
-      > = [];
+    // Build content array
+    const content: Array<
+      | { type: "text"; text: string }
+      | LanguageModelV2ToolCall
+    > = [];
 
-      if (fullText) {
-        content.push({ type: "text", text: fullText });
-      }
-      if (toolCalls.length > 0) {
-        content.push(...toolCallsToContent(toolCalls));
-      }
+    if (fullText) {
+      content.push({ type: "text", text: fullText });
+    }
+    if (toolCalls.length > 0) {
+      content.push(...toolCallsToContent(toolCalls));
+    }
 
-      const finishReason = toolCalls.length > 0 ? "tool-calls" : "stop";
+    const finishReason = getFinishReason(toolCalls, result.limitReason);
+    const { usage, providerMetadata } = buildUsage(
+      modelId,
+      usageData,
+      result.text + toolCalls.map((tc) => tc.arguments).join(""),
+      JSON.stringify(payload),
+      settings.modelAliases,
+      models,
+    );
+    // Callers can pin this via providerOptions.kiro.conversationId
+    providerMetadata.kiro.conversationId = payload.conversationState.conversationId;
+
+    return {
+      content,
+      finishReason,
+      usage,
+      providerMetadata,
+      warnings,
+      request: { body: payload },
+    };
+  };
 
-      return {
-        content,
-        finishReason: finishReason as "stop" | "tool-calls",
-        usage: {
-          inputTokens: undefined,
-          outputTokens: undefined,
-          totalTokens: undefined,
-        },
-        warnings: [],
-      };
+  return {
+    specificationVersion: "v2",
+    provider: "00bx-kiro-gateway",
+    modelId,
+    supportedUrls: SUPPORTED_URLS,
+
+    // ─── Non-streaming generation ──────────────────────────────────────
+    async doGenerate(options: LanguageModelV2CallOptions) {
+      return generate(options);
     },
 
     // ─── Streaming generation ──────────────────────────────────────────
     async doStream(options: LanguageModelV2CallOptions) {
-      const profileArn = auth.getProfileArn() || "";
-      const payload = buildKiroPayload(options, modelId, profileArn);
-
-      const response = await makeKiroRequest(auth, payload as unknown as Record<string, unknown>);
-
-      const body = response.body;
-      if (!body) throw new Error("Empty response from Kiro API");
+      // JSON replies are validated before anything is emitted, so they arrive as one block
+      if (options.responseFormat?.type === "json") {
+        const result = await generate(options);
+        return { stream: resultToStream(result), request: result.request };
+      }
 
-      const parser = new AwsEventStreamParser();
-      const textId = "text-0";
+      const first = await sendRequest(options);
+      const { payload, warnings, requiresToolCall } = first;
 
       // Use TransformStream as a push-based approach (Bun-compatible)
       const { readable, writable } = new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>();
       const writer = writable.getWriter();
 
-      // Consume the response body in a fire-and-forget async loop
+      // Consume the response body in a fire-and-forget async loop.
+      // Writes reject once the consumer cancels, so every one of them is guarded.
       (async () => {
-        let textStartEmitted = false;
-
-        try {
-          const reader = body.getReader();
-
-          // Idle timeout: cancel the reader if no data arrives for 15s.
-          // This works in Bun because we cancel() the reader directly,
-          // which causes the pending reader.read() to resolve with { done: true }.
-          let idleTimer: ReturnType<typeof setTimeout> | null = null;
-          const resetIdleTimer = () => {
-            if (idleTimer) clearTimeout(idleTimer);
-            idleTimer = setTimeout(() => {
-              reader.cancel().catch(() => {});
-            }, 15_000);
+        let outputText = "";
+        let limitReason: OutputLimitReason | null = null;
+        const usageData = createUsageData();
+        const openToolInputs = new Set<string>();
+
+        // With a required toolChoice, a reply is held back until it turns out to
+        // call a tool (it then streams live) or ends without one (a text-only first
+        // reply is dropped for the re-prompt, like doGenerate does). stream-start
+        // waits with it, so a toolChoice warning can still go into it.
+        let held: LanguageModelV2StreamPart[] | null = requiresToolCall ? [] : null;
+        const emit = async (part: LanguageModelV2StreamPart) => {
+          if (held) held.push(part);
+          else await writer.write(part);
+        };
+        const release = async (extraWarnings: LanguageModelV2CallWarning[] = []) => {
+          const parts = held ?? [];
+          held = null;
+          await writer.write({ type: "stream-start", warnings: [...warnings, ...extraWarnings] });
+          for (const part of parts) await writer.write(part);
+        };
+
+        // Forward tool start/input/stop as they arrive so long tool calls render live
+        const writeToolEvent = async (event: ParsedEvent) => {
+          if (event.type === "tool_start") {
+            const { id, name } = event.data as ToolStartData;
+            openToolInputs.add(id);
+            await emit({ type: "tool-input-start", id, toolName: name } as LanguageModelV2StreamPart);
+            // A tool call satisfies toolChoice: stop holding output back
+            if (held) await release();
+          } else if (event.type === "tool_input") {
+            const { id, delta } = event.data as ToolInputData;
+            await emit({ type: "tool-input-delta", id, delta } as LanguageModelV2StreamPart);
+          } else if (event.type === "tool_stop") {
+            const { id } = event.data as ToolStopData;
+            if (openToolInputs.delete(id)) {
+              await emit({ type: "tool-input-end", id } as LanguageModelV2StreamPart);
+            }
+          }
+        };
+
+        // Stream one Kiro response; each response gets its own text block
+        const pump = async (
+          request: Awaited<ReturnType<typeof sendRequest>>,
+          round: number,
+        ): Promise<AwsEventStreamParser> => {
+          const parser = new AwsEventStreamParser();
+          const limiter = new OutputLimiter(options);
+          const textId = `text-${round}`;
+          let textStartEmitted = false;
+
+          const writeText = async (delta: string) => {
+            if (!delta) return;
+            if (!textStartEmitted) {
+              await emit({
+                type: "text-start",
+                id: textId,
+              } as LanguageModelV2StreamPart);
+              textStartEmitted = true;
+            }
+            await emit({
+              type: "text-delta",
+              id: textId,
+              delta,
+            } as LanguageModelV2StreamPart);
+            outputText += delta;
           };
 
-          resetIdleTimer(); // Start the initial idle timer
-
-          // eslint-disable-next-line no-constant-condition
-          while (true) {
-            const result = await reader.read();
-
-            if (result.done) break;
-
-            // Data arrived — reset the idle timer
-            resetIdleTimer();
-
-            const events = parser.feed(result.value!);
-            for (const event of events) {
+          try {
+            await readKiroEvents(request.response, parser, async (event) => {
               if (event.type === "content") {
-                if (!textStartEmitted) {
-                  await writer.write({
-                    type: "text-start",
-                    id: textId,
-                  } as LanguageModelV2StreamPart);
-                  textStartEmitted = true;
-                }
-                await writer.write({
-                  type: "text-delta",
-                  id: textId,
-                  delta: event.data as string,
-                } as LanguageModelV2StreamPart);
+                // Stop sequences and maxOutputTokens end the read early
+                await writeText(limiter.push(event.data as string));
+                return !limiter.stopped;
               }
-            }
-
-            // Kiro finished: usage received + no pending tool call.
-            // Don't wait for reader done — Kiro may keep the connection open.
-            if (parser.isComplete()) {
-              if (idleTimer) clearTimeout(idleTimer);
-              reader.cancel().catch(() => {});
-              break;
-            }
+              if (!recordUsageEvent(usageData, event)) {
+                await writeToolEvent(event);
+              }
+            }, readOptions(options));
+          } catch (err) {
+            await request.done(err);
+            throw err;
           }
+          await request.done();
+          await writeText(limiter.flush());
+          limitReason = limiter.reason;
 
-          // Clean up idle timer
-          if (idleTimer) clearTimeout(idleTimer);
-        } catch {
-          // Stream read error or reader.cancel() — emit finish with whatever we have
-        }
-
-        // Emit finish: close text, emit tool calls, emit finish event
-        const toolCalls = parser.getToolCalls();
+          // Close text and any open tool inputs
+          for (const event of parser.flush()) {
+            await writeToolEvent(event);
+          }
+          for (const id of openToolInputs) {
+            await emit({ type: "tool-input-end", id } as LanguageModelV2StreamPart);
+          }
+          openToolInputs.clear();
 
-        if (textStartEmitted) {
-          await writer.write({ type: "text-end", id: textId } as LanguageModelV2StreamPart);
-        }
+          if (textStartEmitted) {
+            await emit({ type: "text-end", id: textId } as LanguageModelV2StreamPart);
+          }
+          return parser;
+        };
 
-        for (const tc of toolCalls) {
-          await writer.write({ type: "tool-input-start", id: tc.id, toolName: tc.name } as LanguageModelV2StreamPart);
-          await writer.write({ type: "tool-input-delta", id: tc.id, delta: tc.arguments } as LanguageModelV2StreamPart);
-          await writer.write({ type: "tool-input-end", id: tc.id } as LanguageModelV2StreamPart);
-          await writer.write({ type: "tool-call", toolCallId: tc.id, toolName: tc.name, input: tc.arguments } as LanguageModelV2StreamPart);
+        let toolCalls: CollectedToolCall[];
+        try {
+          if (!held) await release();
+          toolCalls = (await pump(first, 0)).getToolCalls();
+
+          // toolChoice asked for a tool call but the model answered in text: re-prompt once
+          if (requiresToolCall && toolCalls.length === 0) {
+            const retry = await sendRequest({
+              ...options,
+              prompt: withToolCallReminder(options.prompt, outputText),
+            });
+            held = [];
+            outputText = "";
+            toolCalls = (await pump(retry, 1)).getToolCalls();
+            if (toolCalls.length === 0) await release([TOOL_CHOICE_UNMET_WARNING]);
+          }
+          if (held) await release();
+        } catch (err) {
+          // Cancelled, corrupt stream or Kiro exception — surface the error and stop without a finish part.
+          // If the body was never read, cancel it so its rate-limit slot is freed.
+          first.response.body?.cancel().catch(() => {});
+          if (held) await release().catch(() => {});
+          await writer.write({ type: "error", error: err } as LanguageModelV2StreamPart).catch(() => {});
+          await writer.close().catch(() => {});
+          return;
         }
 
-        const finishReason = toolCalls.length > 0 ? "tool-calls" : "stop";
-        await writer.write({
-          type: "finish",
-          finishReason,
-          usage: { inputTokens: undefined, outputTokens: undefined, totalTokens: undefined },
-        } as LanguageModelV2StreamPart);
+        const finishReason = getFinishReason(toolCalls, limitReason);
+        const { usage, providerMetadata } = buildUsage(
+          modelId,
+          usageData,
+          outputText + toolCalls.map((tc) => tc.arguments).join(""),
+          JSON.stringify(payload),
+          settings.modelAliases,
+          models,
+        );
+        providerMetadata.kiro.conversationId = payload.conversationState.conversationId;
 
-        await writer.close();
+        try {
+          for (const part of toolCallsToContent(validateToolCalls(toolCalls, options.tools))) {
+            await writer.write(part);
+          }
+          await writer.write({
+            type: "finish",
+            finishReason,
+            usage,
+            providerMetadata,
+          } as LanguageModelV2StreamPart);
+          await writer.close();
+        } catch {
+          // The consumer cancelled after the reply was read; nothing left to deliver
+        }
       })();
 
       return {
@@ -295,10 +518,75 @@ function createKiroLanguageModel(modelId: string): LanguageModelV2 {
 
 // ─── Provider factory ────────────────────────────────────────────────────────
 
-export function createKiroProvider(_options?: Record<string, unknown>): ProviderV2 {
+export interface KiroProvider extends ProviderV2 {
+  languageModel(modelId: string): LanguageModelV2;
+  /** Health of each pooled account: cooldown, last error, request count, token expiry */
+  getAccountHealth(): AccountHealth[];
+  /** Why each credential source (env, credentials file, SSO cache, kiro-cli DB) was or wasn't used */
+  getCredentialReport(): CredentialSourceReport[];
+  /** Models this provider can serve: built-in IDs, aliases and models discovered from Kiro */
+  listModels(options?: { refresh?: boolean; abortSignal?: AbortSignal }): Promise<KiroModelInfo[]>;
+}
+
+export function createKiroProvider(settings: KiroProviderSettings = {}): KiroProvider {
+  if (settings.debug) enableDebugLog({ path: settings.debugLogPath });
+
+  // Record mode: every generateAssistantResponse call is saved as a replay fixture
+  const recordDir = settings.recordDir ?? process.env.KIRO_GATEWAY_RECORD_DIR;
+  if (recordDir) {
+    settings = { ...settings, fetch: createRecordingFetch(recordDir, settings.fetch) };
+  }
+
+  // Each provider owns its accounts; created lazily so constructing a provider never touches disk
+  let accounts: KiroAccountPool | null = null;
+  const getAccounts = (): KiroAccountPool => {
+    if (!accounts) {
+      accounts = settings.credentials
+        ? KiroAccountPool.fromAuthManager(
+          new KiroAuthManager({
+            region: settings.region,
+            credentials: settings.credentials,
+            tokenCache: settings.tokenCache,
+            tokenCachePath: settings.tokenCachePath,
+            refreshUrl: settings.refreshUrl,
+            fetch: settings.fetch,
+          }),
+          "credentials",
+          settings.rateLimit,
+        )
+        : KiroAccountPool.load({
+          region: settings.region,
+          dbPath: settings.dbPath,
+          credentialsFile: settings.credentialsFile,
+          sources: settings.credentialSources,
+          tokenCache: settings.tokenCache,
+          tokenCachePath: settings.tokenCachePath,
+          accountsPath: settings.accountsPath,
+          rateLimit: settings.rateLimit,
+          refreshUrl: settings.refreshUrl,
+          fetch: settings.fetch,
+        });
+    }
+    return accounts;
+  };
+
+  let models: KiroModelCatalog | null = null;
+  const getModels = (): KiroModelCatalog => {
+    models ??= new KiroModelCatalog(getAccounts(), {
+      discover: settings.discoverModels,
+      cachePath: settings.modelCachePath,
+      ttlMs: settings.modelCacheTtlMs,
+      apiHost: settings.apiHost,
+      headers: settings.headers,
+      modelAliases: settings.modelAliases,
+      fetch: settings.fetch,
+    });
+    return models;
+  };
+
   return {
     languageModel(modelId: string): LanguageModelV2 {
-      return createKiroLanguageModel(modelId);
+      return createKiroLanguageModel(modelId, getAccounts(), getModels(), settings);
     },
     textEmbeddingModel() {
       throw new Error("Kiro Gateway does not support embedding models");
@@ -306,8 +594,73 @@ export function createKiroProvider(_options?: Record<string, unknown>): Provider
     imageModel() {
       throw new Error("Kiro Gateway does not support image models");
     },
+    getAccountHealth(): AccountHealth[] {
+      return getAccounts().getHealth();
+    },
+    getCredentialReport(): CredentialSourceReport[] {
+      return getAccounts().getCredentialReport();
+    },
+    async listModels(options = {}): Promise<KiroModelInfo[]> {
+      const catalog = getModels();
+      if (options.refresh) await catalog.discover(options.abortSignal, true);
+      return catalog.list(options.abortSignal);
+    },
   };
 }
 
+export { KiroAccountPool } from "./accounts.js";
+export { EventStreamDecodeError } from "./eventstream.js";
+export { classifyKiroError, getKiroErrorReason } from "./errors.js";
+export type { KiroErrorData, KiroErrorReason } from "./errors.js";
+export type { AccountHealth } from "./accounts.js";
+export type { KiroModelInfo } from "./models.js";
+export { KiroAuthManager } from "./auth.js";
+export type { KiroCredentials } from "./auth.js";
+export {
+  defaultCredentialSources,
+  envCredentialSource,
+  fileCredentialSource,
+  sqliteCredentialSource,
+  ssoCacheCredentialSource,
+} from "./credentials.js";
+export type {
+  CredentialSource,
+  CredentialSourceReport,
+  CredentialSourceResult,
+  ResolvedCredentials,
+} from "./credentials.js";
+export type {
+  KiroErrorInfo,
+  KiroHooks,
+  KiroProviderSettings,
+  KiroRateLimitPolicy,
+  KiroRequestHookContext,
+  KiroResponseInfo,
+  KiroRetryPolicy,
+} from "./settings.js";
+export type { KiroPayload } from "./converter.js";
+export type { ParsedEvent } from "./streaming.js";
+export { createGatewayServer, startGatewayServer } from "./server.js";
+export {
+  createRecordingFetch,
+  createReplayFetch,
+  loadFixture,
+  loadFixtures,
+  splitReplayBytes,
+} from "./replay.js";
+export type { KiroFixture, ReplayChunking, ReplayOptions } from "./replay.js";
+export { MockKiroServer, MOCK_PROFILE_ARN } from "./mock-server.js";
+export type {
+  MockKiroEvent,
+  MockKiroRequest,
+  MockKiroResponse,
+  MockKiroServerOptions,
+  MockRefreshResponse,
+} from "./mock-server.js";
+export { encodeEventStreamMessage, EventStreamDecoder } from "./eventstream.js";
+export type { GatewayServerOptions } from "./server.js";
+export { enableDebugLog, getDefaultDebugLogPath, redact } from "./logger.js";
+export type { DebugLogOptions } from "./logger.js";
+
 // Default export — what OpenCode calls when loading the npm provider
 export default createKiroProvider;
@@ -0,0 +1,96 @@
+// 00bx Kiro Gateway - Output Limits
+// Kiro ignores stopSequences and maxOutputTokens, so both are applied to the
+// text as it streams in; the caller stops reading once a limit is hit.
+
+import { CHARS_PER_TOKEN } from "./config.js";
+
+export type OutputLimitReason = "stop" | "length";
+
+export interface OutputLimitOptions {
+  stopSequences?: string[];
+  maxOutputTokens?: number;
+}
+
+// ─── Output limiter ──────────────────────────────────────────────────────────
+
+export class OutputLimiter {
+  private stopSequences: string[];
+  private maxChars: number;
+  private pending = "";
+  private emittedChars = 0;
+
+  /** Why output was cut, or null while it is still flowing */
+  reason: OutputLimitReason | null = null;
+
+  constructor(options: OutputLimitOptions = {}) {
+    this.stopSequences = (options.stopSequences ?? []).filter((s) => s.length > 0);
+    this.maxChars = options.maxOutputTokens !== undefined
+      ? Math.max(0, options.maxOutputTokens * CHARS_PER_TOKEN)
+      : Infinity;
+  }
+
+  get stopped(): boolean {
+    return this.reason !== null;
+  }
+
+  /**
+   * Add a text delta; returns the part that is safe to emit. Text that could be
+   * the start of a stop sequence is held back until the next delta decides it.
+   */
+  push(delta: string): string {
+    if (this.stopped) return "";
+    this.pending += delta;
+
+    let cut = -1;
+    for (const seq of this.stopSequences) {
+      const idx = this.pending.indexOf(seq);
+      if (idx !== -1 && (cut === -1 || idx < cut)) cut = idx;
+    }
+    if (cut !== -1) {
+      const text = this.pending.slice(0, cut);
+      this.pending = "";
+      this.reason = "stop";
+      return this.take(text);
+    }
+
+    const held = this.partialStopLength();
+    const text = this.pending.slice(0, this.pending.length - held);
+    this.pending = this.pending.slice(this.pending.length - held);
+    return this.take(text);
+  }
+
+  /** Release held-back text once the response has ended */
+  flush(): string {
+    if (this.stopped) return "";
+    const text = this.pending;
+    this.pending = "";
+    return this.take(text);
+  }
+
+  // Longest suffix of the pending text that is a prefix of some stop sequence
+  private partialStopLength(): number {
+    let longest = 0;
+    for (const seq of this.stopSequences) {
+      const max = Math.min(seq.length - 1, this.pending.length);
+      for (let len = max; len > longest; len--) {
+        if (this.pending.endsWith(seq.slice(0, len))) {
+          longest = len;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+
+  // Apply the token budget to text that is about to be emitted
+  private take(text: string): string {
+    const room = this.maxChars - this.emittedChars;
+    if (text.length > room) {
+      this.emittedChars = this.maxChars;
+      this.reason = "length";
+      return text.slice(0, room);
+    }
+    this.emittedChars += text.length;
+    return text;
+  }
+}
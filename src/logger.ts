@@ -0,0 +1,119 @@
+// 00bx Kiro Gateway - Debug Log
+// Opt-in JSON-lines log of credential resolution, token refreshes, requests,
+// retries and streams. Written to a rotating file (never stdout/stderr, which
+// belong to OpenCode's TUI), with tokens and profile ARNs redacted.
+
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from "node:fs";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DebugLogOptions {
+  /** Log file (default: $KIRO_GATEWAY_DEBUG_LOG or ~/.cache/00bx-kiro-gateway/debug.log) */
+  path?: string;
+  /** Rotate once the file grows past this size (default 5 MB) */
+  maxBytes?: number;
+  /** Rotated files to keep: debug.log.1 … debug.log.N (default 3) */
+  maxFiles?: number;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 3;
+// Token values seen this process, newest last; old ones have long expired
+const MAX_SECRETS = 64;
+const REDACTED = "<redacted>";
+
+const SECRET_KEYS = new Set([
+  "accesstoken",
+  "access_token",
+  "refreshtoken",
+  "refresh_token",
+  "idtoken",
+  "authorization",
+  "profilearn",
+  "profile_arn",
+]);
+
+let config: DebugLogOptions | null = null;
+const secrets: string[] = [];
+
+export function getDefaultDebugLogPath(): string {
+  return process.env.KIRO_GATEWAY_DEBUG_LOG
+    ?? join(homedir(), ".cache", "00bx-kiro-gateway", "debug.log");
+}
+
+/** Turn the debug log on for this process (also on when KIRO_GATEWAY_DEBUG=1) */
+export function enableDebugLog(options: DebugLogOptions = {}): void {
+  config = options;
+}
+
+export function isDebugLogEnabled(): boolean {
+  if (config) return true;
+  const env = process.env.KIRO_GATEWAY_DEBUG?.trim().toLowerCase();
+  return !!env && env !== "0" && env !== "false";
+}
+
+// ─── Redaction ───────────────────────────────────────────────────────────────
+
+/**
+ * Remember a token value so it's scrubbed wherever it shows up, e.g. inside an
+ * error body. Recorded even while logging is off: it may be turned on later.
+ */
+export function registerSecret(value: string | null | undefined): void {
+  if (!value || value.length < 8 || secrets.includes(value)) return;
+  secrets.push(value);
+  if (secrets.length > MAX_SECRETS) secrets.shift();
+}
+
+function redactString(value: string): string {
+  let result = value;
+  for (const secret of secrets) result = result.split(secret).join(REDACTED);
+  return result
+    .replace(/Bearer\s+[^\s"',]+/g, `Bearer ${REDACTED}`)
+    .replace(/arn:aws:codewhisperer:[^\s"',]+/g, REDACTED);
+}
+
+/** Deep copy of `value` with secret-named keys, known tokens, bearer headers and ARNs replaced */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth > 6) return "[…]";
+  if (value instanceof Error) {
+    const status = (value as { statusCode?: number }).statusCode;
+    return { name: value.name, message: redactString(value.message), ...(status ? { status } : {}) };
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEYS.has(key.toLowerCase()) && item ? REDACTED : redact(item, depth + 1);
+  }
+  return result;
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────────────
+
+function rotate(path: string, maxFiles: number): void {
+  rmSync(`${path}.${maxFiles}`, { force: true });
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+  }
+  renameSync(path, `${path}.1`);
+}
+
+/** Append one event to the debug log, if enabled. Never throws. */
+export function debugLog(event: string, fields: Record<string, unknown> = {}): void {
+  if (!isDebugLogEnabled()) return;
+  const path = config?.path ?? getDefaultDebugLogPath();
+  try {
+    const line = JSON.stringify({ time: new Date().toISOString(), pid: process.pid, event, ...(redact(fields) as object) });
+    mkdirSync(dirname(path), { recursive: true });
+    if (existsSync(path) && statSync(path).size + line.length > (config?.maxBytes ?? DEFAULT_MAX_BYTES)) {
+      rotate(path, config?.maxFiles ?? DEFAULT_MAX_FILES);
+    }
+    appendFileSync(path, `${line}\n`, { mode: 0o600 });
+  } catch {
+    // Logging must never break a request
+  }
+}
@@ -0,0 +1,259 @@
+// 00bx Kiro Gateway - Mock Kiro Server
+// A local stand-in for Kiro's refresh endpoint and CodeWhisperer API that
+// answers with scripted, real event-stream frames. Point a provider at it
+// (see providerSettings()) to exercise retries, refresh and timeouts offline.
+
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { encodeEventStreamMessage } from "./eventstream.js";
+import type { KiroProviderSettings } from "./settings.js";
+import { sleep } from "./utils.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type MockKiroEvent =
+  | { type: "text"; text: string }
+  /** A tool call; `input` is sent as JSON in `chunks` fragments (default 1) */
+  | { type: "tool"; name: string; id?: string; input: unknown; chunks?: number }
+  | { type: "usage"; credits: number }
+  | { type: "context"; percentage: number }
+  /** A mid-stream exception frame; the stream ends after it */
+  | { type: "exception"; exceptionType: string; message: string }
+  | { type: "delay"; ms: number }
+  /** Stop sending but keep the connection open (idle-timeout testing) */
+  | { type: "hang" };
+
+export type MockKiroResponse =
+  | {
+    type: "stream";
+    events: MockKiroEvent[];
+    /** Pause before every frame */
+    delayMs?: number;
+    /** Pause before the response headers (first-byte-timeout testing) */
+    firstByteDelayMs?: number;
+  }
+  | { type: "error"; status: number; body?: unknown; headers?: Record<string, string> };
+
+export interface MockRefreshResponse {
+  status?: number;
+  body?: unknown;
+}
+
+export interface MockKiroRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: unknown;
+}
+
+export interface MockKiroServerOptions {
+  /** Answer when the script is empty (default: a short text reply with usage) */
+  defaultResponse?: MockKiroResponse;
+  /** ListAvailableModels entries */
+  models?: Array<{ modelId: string; modelName?: string; tokenLimits?: { maxInputTokens?: number; maxOutputTokens?: number } }>;
+  /** Access token lifetime in seconds (default 3600) */
+  expiresIn?: number;
+}
+
+export const MOCK_PROFILE_ARN = "arn:aws:codewhisperer:us-east-1:000000000000:profile/MOCK";
+
+const DEFAULT_RESPONSE: MockKiroResponse = {
+  type: "stream",
+  events: [
+    { type: "text", text: "Hello from mock Kiro." },
+    { type: "usage", credits: 0.01 },
+    { type: "context", percentage: 0.5 },
+  ],
+};
+
+// ─── Frames ──────────────────────────────────────────────────────────────────
+
+function eventFrame(eventType: string, payload: unknown): Uint8Array {
+  return encodeEventStreamMessage(
+    { ":message-type": "event", ":event-type": eventType, ":content-type": "application/json" },
+    JSON.stringify(payload),
+  );
+}
+
+function exceptionFrame(exceptionType: string, message: string): Uint8Array {
+  return encodeEventStreamMessage(
+    { ":message-type": "exception", ":exception-type": exceptionType, ":content-type": "application/json" },
+    JSON.stringify({ message }),
+  );
+}
+
+function toolFrames(event: Extract<MockKiroEvent, { type: "tool" }>, fallbackId: string): Uint8Array[] {
+  const toolUseId = event.id ?? fallbackId;
+  const input = typeof event.input === "string" ? event.input : JSON.stringify(event.input);
+  const chunks = Math.max(1, event.chunks ?? 1);
+  const size = Math.ceil(input.length / chunks) || 1;
+
+  const frames: Uint8Array[] = [];
+  for (let i = 0; i < input.length; i += size) {
+    frames.push(eventFrame("toolUseEvent", { name: event.name, toolUseId, input: input.slice(i, i + size) }));
+  }
+  frames.push(eventFrame("toolUseEvent", { name: event.name, toolUseId, stop: true }));
+  return frames;
+}
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+export class MockKiroServer {
+  /** Every request received, in order */
+  readonly requests: MockKiroRequest[] = [];
+  refreshCount = 0;
+
+  private responses: MockKiroResponse[] = [];
+  private refreshResponses: MockRefreshResponse[] = [];
+  private server: Server;
+  private baseUrl: string | null = null;
+  private toolCounter = 0;
+
+  constructor(private options: MockKiroServerOptions = {}) {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(() => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+  }
+
+  /** Queue responses for the next generateAssistantResponse calls */
+  enqueue(...responses: MockKiroResponse[]): this {
+    this.responses.push(...responses);
+    return this;
+  }
+
+  /** Queue responses for the next token refreshes (default: success) */
+  enqueueRefresh(...responses: MockRefreshResponse[]): this {
+    this.refreshResponses.push(...responses);
+    return this;
+  }
+
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(port, host, resolve));
+    const address = this.server.address() as AddressInfo;
+    this.baseUrl = `http://${host}:${address.port}`;
+    return this.baseUrl;
+  }
+
+  get url(): string {
+    if (!this.baseUrl) throw new Error("Mock Kiro server is not started");
+    return this.baseUrl;
+  }
+
+  get refreshUrl(): string {
+    return `${this.url}/refreshToken`;
+  }
+
+  /** Provider settings that route everything to this server */
+  providerSettings(): KiroProviderSettings {
+    return {
+      credentials: { refreshToken: "mock-refresh-token", profileArn: MOCK_PROFILE_ARN },
+      apiHost: this.url,
+      refreshUrl: this.refreshUrl,
+      tokenCache: false,
+    };
+  }
+
+  /** Stop listening and drop open connections, including hanging streams */
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString("utf-8");
+    let body: unknown = raw;
+    try {
+      body = raw ? JSON.parse(raw) : null;
+    } catch {
+      // Keep the raw text
+    }
+
+    const path = (req.url ?? "/").split("?")[0];
+    this.requests.push({ method: req.method ?? "GET", path, headers: req.headers, body });
+
+    if (path === "/refreshToken") return this.handleRefresh(res);
+    if (path === "/ListAvailableModels") {
+      return this.sendJson(res, 200, {
+        models: this.options.models ?? [
+          { modelId: "claude-sonnet-4.5", modelName: "Claude Sonnet 4.5", tokenLimits: { maxInputTokens: 200_000 } },
+        ],
+      });
+    }
+    if (path === "/generateAssistantResponse") {
+      return this.handleGenerate(res, this.responses.shift() ?? this.options.defaultResponse ?? DEFAULT_RESPONSE);
+    }
+    this.sendJson(res, 404, { message: `Mock Kiro server has no route ${path}` });
+  }
+
+  private handleRefresh(res: ServerResponse): void {
+    this.refreshCount++;
+    const scripted = this.refreshResponses.shift();
+    const status = scripted?.status ?? 200;
+    const body = scripted?.body ?? (status === 200
+      ? {
+        accessToken: `mock-access-token-${this.refreshCount}`,
+        expiresIn: this.options.expiresIn ?? 3600,
+        profileArn: MOCK_PROFILE_ARN,
+      }
+      : { message: "Invalid refresh token" });
+    this.sendJson(res, status, body);
+  }
+
+  private async handleGenerate(res: ServerResponse, response: MockKiroResponse): Promise<void> {
+    if (response.type === "error") {
+      const body = typeof response.body === "string"
+        ? response.body
+        : JSON.stringify(response.body ?? { message: `Mock error ${response.status}` });
+      res.writeHead(response.status, {
+        "Content-Type": "application/json",
+        "x-amzn-requestid": `mock-${this.requests.length}`,
+        ...response.headers,
+      });
+      res.end(body);
+      return;
+    }
+
+    if (response.firstByteDelayMs) await sleep(response.firstByteDelayMs);
+    if (res.destroyed) return;
+    res.writeHead(200, {
+      "Content-Type": "application/vnd.amazon.eventstream",
+      "x-amzn-requestid": `mock-${this.requests.length}`,
+    });
+    res.flushHeaders();
+
+    for (const event of response.events) {
+      if (res.destroyed) return;
+      if (event.type === "hang") return;
+      if (event.type === "delay") {
+        await sleep(event.ms);
+        continue;
+      }
+      if (response.delayMs) await sleep(response.delayMs);
+
+      if (event.type === "text") {
+        res.write(eventFrame("assistantResponseEvent", { content: event.text }));
+      } else if (event.type === "tool") {
+        for (const frame of toolFrames(event, `mock-tool-${++this.toolCounter}`)) res.write(frame);
+      } else if (event.type === "usage") {
+        res.write(eventFrame("meteringEvent", { unit: "credit", unitPlural: "credits", usage: event.credits }));
+      } else if (event.type === "context") {
+        res.write(eventFrame("contextUsageEvent", { contextUsagePercentage: event.percentage }));
+      } else if (event.type === "exception") {
+        res.end(exceptionFrame(event.exceptionType, event.message));
+        return;
+      }
+    }
+    res.end();
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,292 @@
+// 00bx Kiro Gateway - Model Discovery
+// Asks Kiro which models the account can use, so newly enabled or renamed
+// models work without a package release. Results are cached on disk.
+
+import { join, dirname } from "node:path";
+import { homedir } from "node:os";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { NoSuchModelError } from "@ai-sdk/provider";
+import type { KiroAccountPool } from "./accounts.js";
+import {
+  getKiroApiHost,
+  getModelContextWindow,
+  isKnownModelId,
+  MODEL_CACHE_TTL_MS,
+  MODEL_MAPPING,
+} from "./config.js";
+import type { DiscoveredModelLookup } from "./config.js";
+import { createKiroApiError, createKiroNetworkError, headersToRecord } from "./errors.js";
+import { abortable, getKiroHeaders, throwIfAborted } from "./utils.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface KiroModelInfo {
+  /** ID to pass to `languageModel()` */
+  id: string;
+  /** Model ID sent to Kiro */
+  kiroModelId: string;
+  name: string;
+  contextWindow: number;
+  maxOutputTokens?: number;
+  /** Where the entry comes from: the built-in table, `modelAliases`, or Kiro's model list */
+  source: "builtin" | "alias" | "kiro";
+}
+
+interface DiscoveredModel {
+  id: string;
+  name: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+}
+
+interface ModelCacheFile {
+  profileArn: string | null;
+  fetchedAt: number;
+  models: DiscoveredModel[];
+}
+
+interface ListAvailableModelsResponse {
+  models?: Array<{
+    modelId?: string;
+    modelName?: string;
+    tokenLimits?: { maxInputTokens?: number; maxOutputTokens?: number };
+  }>;
+  nextToken?: string;
+}
+
+export interface KiroModelCatalogOptions {
+  /** Query Kiro for available models (default true); when false only built-in models are known */
+  discover?: boolean;
+  cachePath?: string;
+  ttlMs?: number;
+  apiHost?: string;
+  headers?: Record<string, string>;
+  modelAliases?: Record<string, string>;
+  fetch?: typeof globalThis.fetch;
+}
+
+// Wait this long before asking again after a failed lookup
+const DISCOVERY_RETRY_MS = 60_000;
+
+export function getDefaultModelCachePath(): string {
+  return process.env.KIRO_GATEWAY_MODELS_CACHE
+    ?? join(homedir(), ".cache", "00bx-kiro-gateway", "models.json");
+}
+
+// ─── Kiro API ────────────────────────────────────────────────────────────────
+
+async function fetchKiroModels(
+  pool: KiroAccountPool,
+  options: KiroModelCatalogOptions,
+  signal?: AbortSignal,
+): Promise<DiscoveredModel[]> {
+  const fetchFn = options.fetch ?? globalThis.fetch;
+  const { auth } = pool.current();
+  const token = await auth.getAccessToken(signal);
+  const profileArn = auth.getProfileArn();
+  const baseUrl = `${options.apiHost ?? getKiroApiHost(auth.getRegion())}/ListAvailableModels`;
+
+  const models: DiscoveredModel[] = [];
+  let nextToken: string | undefined;
+  do {
+    const params = new URLSearchParams({ origin: "AI_EDITOR" });
+    if (profileArn) params.set("profileArn", profileArn);
+    if (nextToken) params.set("nextToken", nextToken);
+    const url = `${baseUrl}?${params}`;
+
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        method: "GET",
+        headers: { ...getKiroHeaders(auth.fingerprint, token), ...options.headers },
+        signal,
+      });
+    } catch (err) {
+      throwIfAborted(signal);
+      throw createKiroNetworkError(url, {}, err);
+    }
+    if (!response.ok) {
+      throw createKiroApiError({
+        url,
+        requestBody: {},
+        status: response.status,
+        body: await response.text(),
+        headers: headersToRecord(response.headers),
+      });
+    }
+
+    const data = (await response.json()) as ListAvailableModelsResponse;
+    for (const model of data.models ?? []) {
+      if (!model.modelId) continue;
+      models.push({
+        id: model.modelId,
+        name: model.modelName ?? model.modelId,
+        contextWindow: model.tokenLimits?.maxInputTokens,
+        maxOutputTokens: model.tokenLimits?.maxOutputTokens,
+      });
+    }
+    nextToken = data.nextToken;
+  } while (nextToken);
+
+  return models;
+}
+
+// ─── Catalog ─────────────────────────────────────────────────────────────────
+
+export class KiroModelCatalog implements DiscoveredModelLookup {
+  private discovered: DiscoveredModel[] | null = null;
+  // Lookups over `discovered`; each provider resolves IDs against its own account's list
+  private byKiroId = new Map<string, DiscoveredModel>();
+  private dashedAliases = new Map<string, string>();
+  private fetchedAt = 0;
+  private retryAt = 0;
+  private inflight: Promise<DiscoveredModel[] | null> | null = null;
+
+  constructor(
+    private pool: KiroAccountPool,
+    private options: KiroModelCatalogOptions = {},
+  ) {}
+
+  private get ttlMs(): number {
+    return this.options.ttlMs ?? MODEL_CACHE_TTL_MS;
+  }
+
+  private get cachePath(): string {
+    return this.options.cachePath ?? getDefaultModelCachePath();
+  }
+
+  private remember(models: DiscoveredModel[], fetchedAt: number): DiscoveredModel[] {
+    this.discovered = models;
+    this.fetchedAt = fetchedAt;
+    this.byKiroId = new Map(models.map((m) => [m.id, m]));
+    this.dashedAliases = new Map();
+    for (const model of models) {
+      const dashed = model.id.replace(/\./g, "-");
+      if (dashed !== model.id && !(dashed in MODEL_MAPPING)) this.dashedAliases.set(dashed, model.id);
+    }
+    return models;
+  }
+
+  hasModel(modelId: string): boolean {
+    return this.byKiroId.has(modelId) || this.dashedAliases.has(modelId);
+  }
+
+  resolveAlias(modelId: string): string | undefined {
+    return this.dashedAliases.get(modelId);
+  }
+
+  getContextWindow(kiroModelId: string): number | undefined {
+    return this.byKiroId.get(kiroModelId)?.contextWindow;
+  }
+
+  private readCache(): ModelCacheFile | null {
+    try {
+      if (!existsSync(this.cachePath)) return null;
+      const data = JSON.parse(readFileSync(this.cachePath, "utf-8")) as ModelCacheFile;
+      if (!Array.isArray(data.models)) return null;
+      // Another profile's list; the ARN is only known once a token has been fetched
+      const profileArn = this.pool.getProfileArn();
+      if (profileArn && data.profileArn && data.profileArn !== profileArn) return null;
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCache(models: DiscoveredModel[], fetchedAt: number): void {
+    try {
+      mkdirSync(dirname(this.cachePath), { recursive: true });
+      const data: ModelCacheFile = { profileArn: this.pool.getProfileArn(), fetchedAt, models };
+      writeFileSync(this.cachePath, JSON.stringify(data, null, 2));
+    } catch {
+      // A read-only home directory only costs us the cache
+    }
+  }
+
+  /**
+   * Models Kiro reports for the current account: memory, then the disk cache,
+   * then the API. Returns null if discovery is off or Kiro couldn't be asked.
+   */
+  async discover(signal?: AbortSignal, force = false): Promise<DiscoveredModel[] | null> {
+    if (this.options.discover === false) return null;
+    const now = Date.now();
+    if (!force && this.discovered && now - this.fetchedAt < this.ttlMs) return this.discovered;
+
+    if (!force) {
+      const cached = this.readCache();
+      if (cached && now - cached.fetchedAt < this.ttlMs) return this.remember(cached.models, cached.fetchedAt);
+      if (now < this.retryAt) return this.discovered;
+    }
+
+    // Shared by concurrent callers, so it runs without any one caller's signal;
+    // each caller only stops waiting when its own signal aborts
+    this.inflight ??= fetchKiroModels(this.pool, this.options)
+      .then((models) => {
+        const fetchedAt = Date.now();
+        this.writeCache(models, fetchedAt);
+        return this.remember(models, fetchedAt);
+      })
+      .catch(() => {
+        // Fall back to a stale cache rather than nothing
+        this.retryAt = Date.now() + DISCOVERY_RETRY_MS;
+        const stale = this.readCache();
+        return stale ? this.remember(stale.models, stale.fetchedAt) : this.discovered;
+      })
+      .finally(() => {
+        this.inflight = null;
+      });
+    return abortable(this.inflight, signal);
+  }
+
+  /** Built-in IDs, `modelAliases` and discovered models, with context limits */
+  async list(signal?: AbortSignal): Promise<KiroModelInfo[]> {
+    const discovered = (await this.discover(signal)) ?? [];
+    const byKiroId = new Map(discovered.map((m) => [m.id, m]));
+    const aliases = this.options.modelAliases ?? {};
+    const models: KiroModelInfo[] = [];
+    const seen = new Set<string>();
+
+    const add = (id: string, kiroModelId: string, source: KiroModelInfo["source"]) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const info = byKiroId.get(kiroModelId);
+      models.push({
+        id,
+        kiroModelId,
+        name: info?.name ?? id,
+        contextWindow: getModelContextWindow(id, aliases, this),
+        maxOutputTokens: info?.maxOutputTokens,
+        source,
+      });
+    };
+
+    for (const [id, kiroModelId] of Object.entries(aliases)) add(id, kiroModelId, "alias");
+    for (const [id, kiroModelId] of Object.entries(MODEL_MAPPING)) add(id, kiroModelId, "builtin");
+
+    // Models Kiro offers that no built-in ID points at yet, under the dashed config-style ID
+    const mapped = new Set(Object.values(MODEL_MAPPING));
+    for (const model of discovered) {
+      if (mapped.has(model.id)) continue;
+      const dashed = model.id.replace(/\./g, "-");
+      add(dashed in MODEL_MAPPING ? model.id : dashed, model.id, "kiro");
+    }
+    return models;
+  }
+
+  /** Throw NoSuchModelError, listing valid IDs, if Kiro's model list doesn't include `modelId` */
+  async assertKnown(modelId: string, signal?: AbortSignal): Promise<void> {
+    const aliases = this.options.modelAliases;
+    if (isKnownModelId(modelId, aliases, this)) return;
+
+    // Without a model list from Kiro we can't tell; let Kiro decide
+    const discovered = await this.discover(signal);
+    if (!discovered || isKnownModelId(modelId, aliases, this)) return;
+
+    const valid = (await this.list(signal)).map((m) => m.id);
+    throw new NoSuchModelError({
+      modelId,
+      modelType: "languageModel",
+      message: `Unknown Kiro model "${modelId}". Available models: ${valid.join(", ")}`,
+    });
+  }
+}
@@ -0,0 +1,310 @@
+// 00bx Kiro Gateway - OpenAI Chat Completions Compatibility
+// Translates /v1/chat/completions requests to Kiro payloads and back.
+
+import type { ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2FunctionTool,
+  LanguageModelV2Prompt,
+} from "@ai-sdk/provider";
+import { buildKiroPayload } from "./converter.js";
+import { makeKiroRequest, readKiroEvents } from "./client.js";
+import { AwsEventStreamParser } from "./streaming.js";
+import type { ToolInputData, ToolStartData } from "./streaming.js";
+import { buildUsage, createUsageData, recordUsageEvent } from "./usage.js";
+import { HttpError, inlineImageFromUrl, reportWarnings, sendJson, startSse, writeSse } from "./http.js";
+import type { ServerContext } from "./http.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } | string };
+
+interface OpenAIToolCall {
+  id: string;
+  type?: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAITool {
+  type: "function";
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+}
+
+interface OpenAIChatRequest {
+  model?: string;
+  messages?: OpenAIMessage[];
+  tools?: OpenAITool[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+}
+
+// ─── Request translation ─────────────────────────────────────────────────────
+
+function contentToText(content: OpenAIMessage["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((p): p is { type: "text"; text: string } => p.type === "text")
+    .map((p) => p.text)
+    .join("");
+}
+
+function parseToolArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+// Image URLs become file parts; the converter decodes data: URLs
+function imageUrlToFilePart(part: { image_url?: { url?: string } | string }) {
+  const url = typeof part.image_url === "string" ? part.image_url : part.image_url?.url;
+  return inlineImageFromUrl(url, "image_url.url");
+}
+
+export function openAIMessagesToPrompt(messages: OpenAIMessage[]): LanguageModelV2Prompt {
+  const prompt: LanguageModelV2Prompt = [];
+  const toolNames = new Map<string, string>();
+
+  for (const msg of messages) {
+    switch (msg.role) {
+      case "system":
+      case "developer":
+        prompt.push({ role: "system", content: contentToText(msg.content) });
+        break;
+      case "user": {
+        if (typeof msg.content === "string" || !msg.content) {
+          prompt.push({ role: "user", content: [{ type: "text", text: msg.content ?? "" }] });
+        } else {
+          prompt.push({
+            role: "user",
+            content: msg.content.map((p) =>
+              p.type === "image_url" ? imageUrlToFilePart(p) : { type: "text" as const, text: p.text },
+            ),
+          });
+        }
+        break;
+      }
+      case "assistant": {
+        const text = contentToText(msg.content);
+        const content: Extract<LanguageModelV2Prompt[number], { role: "assistant" }>["content"] = [];
+        if (text) content.push({ type: "text", text });
+        for (const tc of msg.tool_calls ?? []) {
+          toolNames.set(tc.id, tc.function.name);
+          content.push({
+            type: "tool-call",
+            toolCallId: tc.id,
+            toolName: tc.function.name,
+            input: parseToolArguments(tc.function.arguments),
+          });
+        }
+        prompt.push({ role: "assistant", content });
+        break;
+      }
+      case "tool": {
+        const toolCallId = msg.tool_call_id ?? "";
+        prompt.push({
+          role: "tool",
+          content: [{
+            type: "tool-result",
+            toolCallId,
+            toolName: toolNames.get(toolCallId) ?? "",
+            output: { type: "text", value: contentToText(msg.content) },
+          }],
+        });
+        break;
+      }
+      default:
+        throw new HttpError(400, `Unsupported message role: ${(msg as { role: string }).role}`);
+    }
+  }
+
+  return prompt;
+}
+
+export function openAIToolsToTools(tools: OpenAITool[] | undefined): LanguageModelV2FunctionTool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return tools
+    .filter((t) => t.type === "function")
+    .map((t) => ({
+      type: "function" as const,
+      name: t.function.name,
+      description: t.function.description,
+      inputSchema: (t.function.parameters ?? { type: "object", properties: {} }) as LanguageModelV2FunctionTool["inputSchema"],
+    }));
+}
+
+// ─── Handlers ────────────────────────────────────────────────────────────────
+
+export async function handleListModels(ctx: ServerContext, res: ServerResponse): Promise<void> {
+  const models = await ctx.models.list();
+  sendJson(res, 200, {
+    object: "list",
+    data: models.map(({ id }) => ({
+      id,
+      object: "model",
+      created: 0,
+      owned_by: "kiro",
+    })),
+  });
+}
+
+export async function handleChatCompletions(
+  ctx: ServerContext,
+  body: Record<string, unknown>,
+  res: ServerResponse,
+  signal?: AbortSignal,
+): Promise<void> {
+  const request = body as OpenAIChatRequest;
+  if (!request.model) throw new HttpError(400, "Missing required field: model");
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    throw new HttpError(400, "Missing required field: messages");
+  }
+
+  const model = request.model;
+  const callOptions: LanguageModelV2CallOptions = {
+    prompt: openAIMessagesToPrompt(request.messages),
+    tools: openAIToolsToTools(request.tools),
+  };
+  await ctx.models.assertKnown(model, signal);
+  const { payload, warnings } = buildKiroPayload(callOptions, model, ctx.accounts.getProfileArn() || "", {
+    models: ctx.models,
+  });
+  reportWarnings(res, warnings);
+  const response = await makeKiroRequest(ctx.accounts, payload as unknown as Record<string, unknown>, {
+    apiHost: ctx.apiHost,
+    abortSignal: signal,
+  });
+
+  const id = `chatcmpl-${randomUUID().replace(/-/g, "")}`;
+  const created = Math.floor(Date.now() / 1000);
+  const parser = new AwsEventStreamParser();
+  const usageData = createUsageData();
+  let outputText = "";
+
+  if (!request.stream) {
+    await readKiroEvents(response, parser, (event) => {
+      if (event.type === "content") outputText += event.data as string;
+      else recordUsageEvent(usageData, event);
+    }, { signal });
+
+    const toolCalls = parser.getToolCalls();
+    const { usage } = buildUsage(
+      model,
+      usageData,
+      outputText + toolCalls.map((tc) => tc.arguments).join(""),
+      JSON.stringify(payload),
+      undefined,
+      ctx.models,
+    );
+
+    sendJson(res, 200, {
+      id,
+      object: "chat.completion",
+      created,
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: "assistant",
+          content: outputText || null,
+          ...(toolCalls.length > 0 && {
+            tool_calls: toolCalls.map((tc) => ({
+              id: tc.id,
+              type: "function",
+              function: { name: tc.name, arguments: tc.arguments },
+            })),
+          }),
+        },
+        finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+      }],
+      usage: {
+        prompt_tokens: usage.inputTokens,
+        completion_tokens: usage.outputTokens,
+        total_tokens: usage.totalTokens,
+      },
+    });
+    return;
+  }
+
+  // ─── Streaming (SSE) ───────────────────────────────────────────────
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+  const toolIndexes = new Map<string, number>();
+
+  // Usage chunk, sent last when asked for — also ahead of a mid-stream error
+  const writeUsage = () => {
+    if (!request.stream_options?.include_usage) return;
+    const { usage } = buildUsage(
+      model,
+      usageData,
+      outputText + parser.getToolCalls().map((tc) => tc.arguments).join(""),
+      JSON.stringify(payload),
+      undefined,
+      ctx.models,
+    );
+    writeSse(res, {
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [],
+      usage: {
+        prompt_tokens: usage.inputTokens,
+        completion_tokens: usage.outputTokens,
+        total_tokens: usage.totalTokens,
+      },
+    });
+  };
+
+  startSse(res);
+  writeSse(res, chunk({ role: "assistant", content: "" }));
+
+  try {
+    await readKiroEvents(response, parser, (event) => {
+      if (event.type === "content") {
+        outputText += event.data as string;
+        writeSse(res, chunk({ content: event.data as string }));
+      } else if (event.type === "tool_start") {
+        const { id: toolId, name } = event.data as ToolStartData;
+        toolIndexes.set(toolId, toolIndexes.size);
+        writeSse(res, chunk({
+          tool_calls: [{ index: toolIndexes.get(toolId), id: toolId, type: "function", function: { name, arguments: "" } }],
+        }));
+      } else if (event.type === "tool_input") {
+        const { id: toolId, delta } = event.data as ToolInputData;
+        writeSse(res, chunk({
+          tool_calls: [{ index: toolIndexes.get(toolId), function: { arguments: delta } }],
+        }));
+      } else {
+        recordUsageEvent(usageData, event);
+      }
+    }, { signal });
+  } catch (err) {
+    // The server reports the error in-band after this
+    if (!signal?.aborted) writeUsage();
+    throw err;
+  }
+
+  const toolCalls = parser.getToolCalls();
+  writeSse(res, chunk({}, toolCalls.length > 0 ? "tool_calls" : "stop"));
+  writeUsage();
+  writeSse(res, "[DONE]");
+  res.end();
+}
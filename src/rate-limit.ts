@@ -0,0 +1,237 @@
+// 00bx Kiro Gateway - Rate Limiting
+// Per-account concurrency queue, token bucket and circuit breaker in front of
+// generateAssistantResponse, plus Retry-After-aware jittered backoff.
+
+import {
+  DEFAULT_BREAKER_COOLDOWN_MS,
+  DEFAULT_BREAKER_THRESHOLD,
+  DEFAULT_MAX_CONCURRENT,
+  RETRY_AFTER_MAX_MS,
+} from "./config.js";
+import { debugLog } from "./logger.js";
+import type { KiroRateLimitPolicy } from "./settings.js";
+import { createAbortError, sleep, throwIfAborted } from "./utils.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RateLimiterStats {
+  /** Requests currently holding a slot */
+  inFlight: number;
+  /** Requests waiting for a slot */
+  queued: number;
+  /** Time the most recent request waited before being sent (slot + rate) */
+  lastWaitMs: number;
+  /** Unix ms until which the circuit breaker fails requests, or null */
+  circuitOpenUntil: number | null;
+}
+
+const UNLIMITED: KiroRateLimitPolicy = {
+  maxConcurrent: Infinity,
+  breakerThreshold: Infinity,
+};
+
+// ─── Backoff ─────────────────────────────────────────────────────────────────
+
+/** Parse a Retry-After header (seconds or an HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry `attempt` (0-based): exponential with jitter, so parallel
+ * callers don't retry in lockstep. A Retry-After from Kiro is a lower bound.
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  retryAfterMs?: number,
+): number {
+  const ceiling = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  const jittered = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  if (retryAfterMs === undefined) return jittered;
+  return Math.min(Math.max(retryAfterMs, jittered), RETRY_AFTER_MAX_MS);
+}
+
+// ─── Limiter ─────────────────────────────────────────────────────────────────
+
+export class AccountRateLimiter {
+  private policy: KiroRateLimitPolicy;
+  private inFlight = 0;
+  private queue: Array<() => void> = [];
+  private tokens: number;
+  private refilledAt = Date.now();
+  private consecutiveThrottles = 0;
+  private circuitOpenUntil: number | null = null;
+  private lastWaitMs = 0;
+
+  constructor(
+    private account: string,
+    policy: KiroRateLimitPolicy | false = {},
+  ) {
+    this.policy = policy === false ? UNLIMITED : policy;
+    this.tokens = this.burst;
+  }
+
+  private get maxConcurrent(): number {
+    return Math.max(1, this.policy.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+  }
+
+  private get burst(): number {
+    const rpm = this.policy.requestsPerMinute;
+    if (!rpm) return Infinity;
+    return Math.max(1, this.policy.burst ?? Math.ceil(rpm / 10));
+  }
+
+  /** Milliseconds the circuit stays open, or 0 if requests may go out. A pure read. */
+  circuitRemainingMs(now = Date.now()): number {
+    return this.circuitOpenUntil === null ? 0 : Math.max(0, this.circuitOpenUntil - now);
+  }
+
+  // Cooldown over — half-open: let the next request through, reopen if it's throttled too
+  private halfOpenIfCooledDown(now = Date.now()): void {
+    if (this.circuitOpenUntil === null || now < this.circuitOpenUntil) return;
+    this.circuitOpenUntil = null;
+    this.consecutiveThrottles = (this.policy.breakerThreshold ?? DEFAULT_BREAKER_THRESHOLD) - 1;
+  }
+
+  recordThrottle(): void {
+    this.consecutiveThrottles++;
+    if (this.consecutiveThrottles < (this.policy.breakerThreshold ?? DEFAULT_BREAKER_THRESHOLD)) return;
+    const cooldownMs = this.policy.breakerCooldownMs ?? DEFAULT_BREAKER_COOLDOWN_MS;
+    this.circuitOpenUntil = Date.now() + cooldownMs;
+    this.consecutiveThrottles = 0;
+    debugLog("circuit.open", { account: this.account, cooldownMs });
+  }
+
+  recordSuccess(): void {
+    this.consecutiveThrottles = 0;
+  }
+
+  // Wait for one token; the bucket refills continuously at requestsPerMinute
+  private async takeToken(signal?: AbortSignal): Promise<void> {
+    const rpm = this.policy.requestsPerMinute;
+    if (!rpm) return;
+    const perMs = rpm / 60_000;
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.refilledAt) * perMs);
+    this.refilledAt = now;
+    this.tokens -= 1;
+    // Negative balance = reserved by earlier callers; wait until ours is refilled
+    if (this.tokens < 0) await sleep(Math.ceil(-this.tokens / perMs), signal);
+  }
+
+  /**
+   * Wait for a concurrency slot and a rate token. Resolves with a release
+   * function (safe to call more than once) that frees the slot.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    throwIfAborted(signal);
+    const started = Date.now();
+    this.halfOpenIfCooledDown(started);
+
+    if (this.inFlight < this.maxConcurrent && this.queue.length === 0) {
+      this.inFlight++;
+    } else {
+      await new Promise<void>((resolve, reject) => {
+        const waiter = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) this.queue.splice(index, 1);
+          reject(createAbortError(signal));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+        this.queue.push(waiter);
+      });
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      // Hand the slot straight to the next waiter
+      const next = this.queue.shift();
+      if (next) {
+        this.inFlight++;
+        next();
+      }
+    };
+
+    try {
+      await this.takeToken(signal);
+    } catch (err) {
+      release();
+      throw err;
+    }
+
+    this.lastWaitMs = Date.now() - started;
+    if (this.lastWaitMs > 0) {
+      debugLog("queue.wait", { account: this.account, waitMs: this.lastWaitMs, queued: this.queue.length });
+    }
+    return release;
+  }
+
+  getStats(): RateLimiterStats {
+    return {
+      inFlight: this.inFlight,
+      queued: this.queue.length,
+      lastWaitMs: this.lastWaitMs,
+      circuitOpenUntil: this.circuitRemainingMs() > 0 ? this.circuitOpenUntil : null,
+    };
+  }
+}
+
+/**
+ * Keep a slot until the response body has been read to the end, cancelled
+ * or errored — or the request is aborted — then call `release`.
+ */
+export function releaseWhenConsumed(response: Response, release: () => void, signal?: AbortSignal): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+  signal?.addEventListener("abort", release, { once: true });
+  const done = () => {
+    signal?.removeEventListener("abort", release);
+    release();
+  };
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done: finished, value } = await reader.read();
+        if (finished) {
+          done();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (err) {
+        done();
+        controller.error(err);
+      }
+    },
+    async cancel(reason) {
+      done();
+      await reader.cancel(reason);
+    },
+  });
+
+  const wrapped = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // Error messages and logs refer to the request URL
+  Object.defineProperty(wrapped, "url", { value: response.url });
+  return wrapped;
+}
@@ -0,0 +1,225 @@
+// 00bx Kiro Gateway - Record & Replay
+// Captures generateAssistantResponse calls (payload + raw event-stream bytes)
+// as fixture files, and plays them back through a fake fetch so parser
+// behavior can be reproduced without network access.
+
+import { join } from "node:path";
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { sleep } from "./utils.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface KiroFixture {
+  version: 1;
+  recordedAt: string;
+  request: {
+    url: string;
+    /** The KiroPayload that was sent (profile ARN redacted) */
+    payload: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** Raw response bytes, base64 — exactly what the parser was fed */
+    body: string;
+  };
+}
+
+/**
+ * How replayed bytes are cut into chunks:
+ * "whole" (one chunk), "frame" (one event-stream frame per chunk),
+ * a number (fixed-size chunks; 1 = byte by byte), or explicit split offsets.
+ */
+export type ReplayChunking = "whole" | "frame" | number | number[];
+
+export interface ReplayOptions {
+  chunking?: ReplayChunking;
+  /** Pause between chunks */
+  delayMs?: number;
+}
+
+const ASSISTANT_RESPONSE_PATH = "/generateAssistantResponse";
+
+function requestUrl(input: Parameters<typeof fetch>[0]): string {
+  if (typeof input === "string") return input;
+  return input instanceof URL ? input.href : input.url;
+}
+
+// ─── Recording ───────────────────────────────────────────────────────────────
+
+/**
+ * Wrap `fetchFn` so every generateAssistantResponse call is saved to `dir`.
+ * The fixture is written once the caller finishes with the body — including
+ * when it cancels early — and holds exactly the bytes that were read.
+ */
+export function createRecordingFetch(
+  dir: string,
+  fetchFn: typeof globalThis.fetch = globalThis.fetch,
+): typeof globalThis.fetch {
+  let counter = 0;
+
+  return async (input, init) => {
+    const response = await fetchFn(input, init);
+    const url = requestUrl(input);
+    if (!url.endsWith(ASSISTANT_RESPONSE_PATH) || !response.body) return response;
+
+    let payload: unknown = null;
+    try {
+      payload = JSON.parse(String(init?.body ?? "null"));
+      if (payload && typeof payload === "object" && "profileArn" in payload) {
+        payload = { ...payload, profileArn: "<redacted>" };
+      }
+    } catch {
+      // Non-JSON body; keep the fixture anyway
+    }
+
+    const chunks: Uint8Array[] = [];
+    let saved = false;
+    const save = () => {
+      if (saved) return;
+      saved = true;
+      const fixture: KiroFixture = {
+        version: 1,
+        recordedAt: new Date().toISOString(),
+        request: { url, payload },
+        response: {
+          status: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+          body: Buffer.concat(chunks).toString("base64"),
+        },
+      };
+      mkdirSync(dir, { recursive: true });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${process.pid}-${++counter}.json`;
+      writeFileSync(join(dir, name), JSON.stringify(fixture, null, 2));
+    };
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            save();
+            controller.close();
+            return;
+          }
+          chunks.push(value);
+          controller.enqueue(value);
+        } catch (err) {
+          save();
+          controller.error(err);
+        }
+      },
+      async cancel(reason) {
+        save();
+        await reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────────
+
+export function loadFixture(path: string): KiroFixture {
+  return JSON.parse(readFileSync(path, "utf-8")) as KiroFixture;
+}
+
+/** All fixtures in a directory, in file-name (i.e. recording) order */
+export function loadFixtures(dir: string): KiroFixture[] {
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => loadFixture(join(dir, name)));
+}
+
+// Event-stream frames start with their total length (4-byte big-endian)
+function frameOffsets(bytes: Uint8Array): number[] {
+  const offsets: number[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  while (offset + 4 <= bytes.length) {
+    const length = view.getUint32(offset);
+    if (length === 0) break;
+    offset += length;
+    if (offset < bytes.length) offsets.push(offset);
+  }
+  return offsets;
+}
+
+export function splitReplayBytes(bytes: Uint8Array, chunking: ReplayChunking = "frame"): Uint8Array[] {
+  let offsets: number[];
+  if (chunking === "whole") {
+    offsets = [];
+  } else if (chunking === "frame") {
+    offsets = frameOffsets(bytes);
+  } else if (typeof chunking === "number") {
+    const size = Math.max(1, Math.floor(chunking));
+    offsets = [];
+    for (let i = size; i < bytes.length; i += size) offsets.push(i);
+  } else {
+    offsets = [...chunking].filter((o) => o > 0 && o < bytes.length).sort((a, b) => a - b);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let start = 0;
+  for (const end of [...offsets, bytes.length]) {
+    if (end > start) chunks.push(bytes.subarray(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * A fetch that answers generateAssistantResponse calls from `fixtures`, one
+ * per call, in order. Token refresh and model listing get canned answers,
+ * so a provider needs nothing but `credentials: { refreshToken: "replay" }`.
+ */
+export function createReplayFetch(
+  fixtures: KiroFixture[],
+  options: ReplayOptions = {},
+): typeof globalThis.fetch {
+  const queue = [...fixtures];
+
+  return async (input, init) => {
+    const url = requestUrl(input);
+
+    if (url.includes("/refreshToken")) {
+      return Response.json({ accessToken: "replay-access-token", expiresIn: 3600 });
+    }
+    if (url.includes("/ListAvailableModels")) {
+      return Response.json({ models: [] });
+    }
+
+    const fixture = queue.shift();
+    if (!fixture) {
+      return new Response(JSON.stringify({ message: `No replay fixture left for ${url}` }), { status: 500 });
+    }
+
+    const bytes = new Uint8Array(Buffer.from(fixture.response.body, "base64"));
+    const chunks = splitReplayBytes(bytes, options.chunking);
+    const signal = init?.signal ?? undefined;
+    let index = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (index >= chunks.length) {
+          controller.close();
+          return;
+        }
+        if (options.delayMs && index > 0) await sleep(options.delayMs, signal);
+        controller.enqueue(chunks[index++]);
+      },
+    });
+
+    return new Response(body, {
+      status: fixture.response.status,
+      headers: fixture.response.headers,
+    });
+  };
+}
@@ -0,0 +1,192 @@
+// 00bx Kiro Gateway - JSON Helpers
+// Kiro has no JSON mode, so structured output is prompted for and checked
+// here. The validator covers the JSON Schema subset that tool and object
+// schemas use in practice; unknown keywords are ignored.
+
+type JsonSchema = Record<string, unknown>;
+
+// ─── JSON extraction ─────────────────────────────────────────────────────────
+
+const FENCE_PATTERN = /```(?:json|JSON)?\s*\n?([\s\S]*?)\n?```/;
+
+/** Pull a JSON value out of a model reply: strips code fences and surrounding prose */
+export function extractJsonText(text: string): string {
+  const trimmed = text.trim();
+  const fenced = FENCE_PATTERN.exec(trimmed);
+  const body = (fenced ? fenced[1] : trimmed).trim();
+  if (body.startsWith("{") || body.startsWith("[")) return body;
+
+  // Prose around the value: take the outermost object or array
+  const start = body.search(/[[{]/);
+  if (start === -1) return body;
+  const close = body[start] === "{" ? "}" : "]";
+  const end = body.lastIndexOf(close);
+  return end > start ? body.slice(start, end + 1) : body;
+}
+
+// ─── JSON repair ─────────────────────────────────────────────────────────────
+
+const OPEN_FENCE = /^```(?:json|JSON)?[^\S\n]*\n?/;
+const CLOSE_FENCE = /\n?```$/;
+
+/**
+ * Best-effort fix for truncated or sloppy JSON: strips code fences and
+ * trailing commas, closes an unterminated string and any open brackets, and
+ * drops an object member cut off before its value (`"b`, `"b"`, `"b":`).
+ * Returns compact JSON, or null when the result still doesn't parse.
+ */
+export function repairJson(text: string): string | null {
+  const body = text.trim().replace(OPEN_FENCE, "").replace(CLOSE_FENCE, "").trim();
+  const closers: string[] = [];
+  let out = "";
+  let inString = false;
+  let escaped = false;
+  // Where the member still waiting for its value starts, or -1
+  let keyStart = -1;
+  let expectKey = false;
+  let afterColon = false;
+
+  for (const ch of body) {
+    if (inString) {
+      out += ch;
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (afterColon && ch !== ":" && !/\s/.test(ch)) {
+      keyStart = -1;
+      afterColon = false;
+    }
+    if (ch === '"') {
+      inString = true;
+      if (expectKey) keyStart = out.length;
+      expectKey = false;
+    } else if (ch === ":") {
+      afterColon = keyStart !== -1;
+    } else if (ch === ",") {
+      expectKey = closers.at(-1) === "}";
+      keyStart = -1;
+    } else if (ch === "{" || ch === "[") {
+      closers.push(ch === "{" ? "}" : "]");
+      expectKey = ch === "{";
+    } else if (ch === "}" || ch === "]") {
+      if (closers.pop() !== ch) return null;
+      out = out.replace(/,\s*$/, "");
+      expectKey = false;
+      keyStart = -1;
+    }
+    out += ch;
+  }
+
+  // Cut off mid-member: drop the key, or finish the string value
+  if (keyStart !== -1) out = out.slice(0, keyStart);
+  else if (inString) out = `${escaped ? out.slice(0, -1) : out}"`;
+  out = out.replace(/,\s*$/, "");
+  out += closers.reverse().join("");
+
+  try {
+    return JSON.stringify(JSON.parse(out));
+  } catch {
+    return null;
+  }
+}
+
+// ─── Schema validation ───────────────────────────────────────────────────────
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function validateAt(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  const at = path || "(root)";
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${at}: expected ${types.join(" | ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${at}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  for (const key of ["anyOf", "oneOf"] as const) {
+    const options = schema[key];
+    if (!Array.isArray(options)) continue;
+    const passing = options.filter((option) => validateJsonSchema(value, option as JsonSchema).length === 0);
+    if (passing.length === 0 || (key === "oneOf" && passing.length > 1)) {
+      errors.push(`${at}: does not match ${key}`);
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const option of schema.allOf) validateAt(value, option as JsonSchema, path, errors);
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in obj)) errors.push(`${path ? `${path}.` : ""}${key}: required property is missing`);
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (properties[key]) {
+        validateAt(child, properties[key], childPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath}: unexpected property`);
+      } else if (typeof schema.additionalProperties === "object" && schema.additionalProperties) {
+        validateAt(child, schema.additionalProperties as JsonSchema, childPath, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${at}: expected at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${at}: expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object" && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => validateAt(item, schema.items as JsonSchema, `${path}[${i}]`, errors));
+    }
+  }
+}
+
+/** Validate `value` against `schema`; returns human-readable problems (empty when valid) */
+export function validateJsonSchema(value: unknown, schema: JsonSchema | undefined): string[] {
+  const errors: string[] = [];
+  if (schema && typeof schema === "object") validateAt(value, schema, "", errors);
+  return errors;
+}
+
+/** Parse a model reply as JSON and check it against `schema` */
+export function parseJsonReply(
+  text: string,
+  schema: JsonSchema | undefined,
+): { json: string; errors: string[] } {
+  const json = extractJsonText(text);
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err) {
+    return { json, errors: [`not valid JSON (${err instanceof Error ? err.message : String(err)})`] };
+  }
+  return { json, errors: validateJsonSchema(value, schema) };
+}
@@ -0,0 +1,142 @@
+// 00bx Kiro Gateway - Local HTTP Server
+// Exposes Kiro through OpenAI- and Anthropic-compatible endpoints for tools outside the AI SDK.
+
+import { createServer } from "node:http";
+import type { Server, ServerResponse } from "node:http";
+import { APICallError, NoSuchModelError } from "@ai-sdk/provider";
+import { KiroAccountPool } from "./accounts.js";
+import type { KiroAuthManager } from "./auth.js";
+import { getAccountPool } from "./client.js";
+import { getKiroErrorReason } from "./errors.js";
+import { KiroModelCatalog } from "./models.js";
+import type { KiroErrorReason } from "./errors.js";
+import { HttpError, readJsonBody, sendJson, writeSse } from "./http.js";
+import type { ServerContext } from "./http.js";
+import { handleChatCompletions, handleListModels } from "./openai.js";
+import { handleMessages } from "./anthropic.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface GatewayServerOptions {
+  port?: number;
+  host?: string;
+  /** Account pool to use (defaults to the shared kiro-cli DB + accounts file pool) */
+  accounts?: KiroAccountPool;
+  /** Single auth manager to use instead of a pool */
+  auth?: KiroAuthManager;
+  /** Override the CodeWhisperer host (e.g. a local stand-in for testing) */
+  apiHost?: string;
+}
+
+type ApiDialect = "openai" | "anthropic";
+
+// ─── Error responses ─────────────────────────────────────────────────────────
+
+function anthropicErrorType(status: number, reason: KiroErrorReason | undefined): string {
+  if (reason === "throttled" || reason === "quota" || status === 429) return "rate_limit_error";
+  if (reason === "auth") return "authentication_error";
+  if (reason === "server_error") return "overloaded_error";
+  if (status === 404) return "not_found_error";
+  return status < 500 ? "invalid_request_error" : "api_error";
+}
+
+// Mid-stream Kiro exceptions carry no HTTP status, so the classified reason decides
+function openAIErrorType(status: number, reason: KiroErrorReason | undefined): string {
+  if (reason === "throttled" || reason === "quota" || status === 429) return "rate_limit_error";
+  return status < 500 ? "invalid_request_error" : "server_error";
+}
+
+// Upstream Kiro errors keep their status (so clients see 429s), other failures are 500s
+function errorStatus(err: unknown): number {
+  if (err instanceof HttpError) return err.status;
+  if (NoSuchModelError.isInstance(err)) return 404;
+  if (APICallError.isInstance(err) && err.statusCode && err.statusCode >= 400) {
+    return err.statusCode === 403 ? 502 : err.statusCode;
+  }
+  if (APICallError.isInstance(err)) return 502;
+  return 500;
+}
+
+function sendError(res: ServerResponse, err: unknown, dialect: ApiDialect): void {
+  const status = errorStatus(err);
+  const message = err instanceof Error ? err.message : String(err);
+  const reason = getKiroErrorReason(err);
+
+  if (dialect === "anthropic") {
+    const body = {
+      type: "error",
+      error: { type: anthropicErrorType(status, reason), message },
+    };
+    if (res.headersSent) {
+      writeSse(res, body, "error");
+      res.end();
+    } else {
+      sendJson(res, status, body);
+    }
+    return;
+  }
+
+  if (res.headersSent) {
+    // Mid-stream failure — report in-band and close
+    writeSse(res, { error: { message, type: openAIErrorType(status, reason), code: reason ?? null } });
+    res.end();
+    return;
+  }
+  sendJson(res, status, {
+    error: {
+      message,
+      type: openAIErrorType(status, reason),
+      code: reason ?? null,
+    },
+  });
+}
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+export function createGatewayServer(options: GatewayServerOptions = {}): Server {
+  const accounts = options.accounts
+    ?? (options.auth ? KiroAccountPool.fromAuthManager(options.auth) : getAccountPool());
+  const ctx: ServerContext = {
+    accounts,
+    models: new KiroModelCatalog(accounts, { apiHost: options.apiHost }),
+    apiHost: options.apiHost,
+  };
+
+  return createServer((req, res) => {
+    const path = (req.url ?? "/").split("?")[0].replace(/\/+$/, "");
+    const dialect: ApiDialect = path === "/v1/messages" ? "anthropic" : "openai";
+
+    // Client went away before we finished — cancel the upstream Kiro request
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    (async () => {
+      if (req.method === "GET" && path === "/v1/models") {
+        await handleListModels(ctx, res);
+      } else if (req.method === "POST" && path === "/v1/chat/completions") {
+        await handleChatCompletions(ctx, await readJsonBody(req), res, controller.signal);
+      } else if (req.method === "POST" && path === "/v1/messages") {
+        await handleMessages(ctx, await readJsonBody(req), res, controller.signal);
+      } else {
+        throw new HttpError(404, `Unknown route: ${req.method} ${path || "/"}`);
+      }
+    })().catch((err) => {
+      if (!controller.signal.aborted) sendError(res, err, dialect);
+    });
+  });
+}
+
+/** Create the gateway server and start listening (defaults to 127.0.0.1:8765) */
+export async function startGatewayServer(options: GatewayServerOptions = {}): Promise<Server> {
+  const server = createGatewayServer(options);
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 8765, options.host ?? "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return server;
+}
@@ -0,0 +1,128 @@
+// 00bx Kiro Gateway - Provider Settings
+
+import type { LanguageModelV2CallOptions } from "@ai-sdk/provider";
+import type { KiroCredentials } from "./auth.js";
+import type { KiroPayload } from "./converter.js";
+import type { CredentialSource } from "./credentials.js";
+import type { ParsedEvent } from "./streaming.js";
+
+export interface KiroRetryPolicy {
+  /** Total attempts per request, including the first (default 3) */
+  maxRetries?: number;
+  /** Backoff before retry n is baseDelayMs * 2^n, capped at maxDelayMs */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/** Client-side limits applied per account before calling Kiro */
+export interface KiroRateLimitPolicy {
+  /** Requests in flight at once; more wait in a FIFO queue (default 4) */
+  maxConcurrent?: number;
+  /** Sustained request rate (default: unlimited) */
+  requestsPerMinute?: number;
+  /** Requests that may start back to back before the rate applies (default: a tenth of a minute's worth, at least 1) */
+  burst?: number;
+  /** Consecutive throttled responses that open the circuit breaker (default 3) */
+  breakerThreshold?: number;
+  /** How long an open circuit fails requests immediately (default 30s) */
+  breakerCooldownMs?: number;
+}
+
+export interface KiroRequestHookContext {
+  modelId: string;
+  callOptions: LanguageModelV2CallOptions;
+}
+
+export interface KiroResponseInfo {
+  modelId: string;
+  /** The payload as sent, after onRequest */
+  payload: KiroPayload;
+  /** HTTP attempts, including retries and account rotations */
+  attempts: number;
+  /** Account that served the response */
+  account: string | null;
+  status: number;
+  /** Until the response headers arrived */
+  timeToFirstByteMs: number;
+  /** Until the event stream was fully read */
+  durationMs: number;
+}
+
+export interface KiroErrorInfo {
+  modelId: string;
+  payload: KiroPayload;
+  attempts: number;
+  account: string | null;
+  durationMs: number;
+  error: unknown;
+}
+
+/**
+ * Lifecycle hooks, run for every Kiro request — including toolChoice and JSON
+ * re-prompts. Errors thrown by onEvent, onResponse and onError are ignored.
+ */
+export interface KiroHooks {
+  /** Rewrite the payload before it is sent (return a new one, or edit it in place). Throwing fails the call. */
+  onRequest?(payload: KiroPayload, context: KiroRequestHookContext): KiroPayload | void | Promise<KiroPayload | void>;
+  /**
+   * Observe or rewrite each parsed event; return null to drop it. Tool calls are
+   * assembled by the parser, so rewriting tool events only changes the live tool-input parts.
+   */
+  onEvent?(event: ParsedEvent): ParsedEvent | null | void;
+  /** After a response has been read to the end */
+  onResponse?(info: KiroResponseInfo): void | Promise<void>;
+  /** When a request fails after its retries, or its stream errors */
+  onError?(info: KiroErrorInfo): void | Promise<void>;
+}
+
+export interface KiroProviderSettings {
+  /** AWS region of the Kiro account (default us-east-1, or the region stored by kiro-cli) */
+  region?: string;
+  /** Path to kiro-cli's data.sqlite3 (auto-detected by default) */
+  dbPath?: string;
+  /** JSON credentials file `{ refreshToken, profileArn?, region? }` (default: $KIRO_CREDENTIALS_FILE) */
+  credentialsFile?: string;
+  /** Replace the default credential chain (env → credentials file → SSO cache → kiro-cli DB) */
+  credentialSources?: CredentialSource[];
+  /** Share refreshed tokens across processes through a cache file (default true) */
+  tokenCache?: boolean;
+  /** Token cache file (default ~/.config/00bx-kiro-gateway/tokens.json) */
+  tokenCachePath?: string;
+  /** Use these credentials instead of kiro-cli's DB and the accounts file */
+  credentials?: KiroCredentials;
+  /** Path to the multi-account file (default ~/.config/00bx-kiro-gateway/accounts.json) */
+  accountsPath?: string;
+  retry?: KiroRetryPolicy;
+  /** Per-account concurrency, request rate and circuit breaker; false turns client-side limiting off */
+  rateLimit?: KiroRateLimitPolicy | false;
+  /** Cancel the response stream after this long without data (default 15s) */
+  idleTimeoutMs?: number;
+  /** Give up on an attempt if Kiro hasn't responded within this time (default 120s) */
+  firstByteTimeoutMs?: number;
+  /** Extra config-ID → Kiro model ID mappings, checked before the built-in table */
+  modelAliases?: Record<string, string>;
+  /** Ask Kiro which models the account can use (default true) */
+  discoverModels?: boolean;
+  /** Where the discovered model list is cached (default ~/.cache/00bx-kiro-gateway/models.json) */
+  modelCachePath?: string;
+  /** How long the cached model list is trusted (default 6h) */
+  modelCacheTtlMs?: number;
+  /** Drop the oldest history turns when a request would overflow the context window (default true) */
+  trimHistory?: boolean;
+  /** Extra headers sent with every generateAssistantResponse request */
+  headers?: Record<string, string>;
+  /** Override the CodeWhisperer API host */
+  apiHost?: string;
+  /** Override the token refresh endpoint */
+  refreshUrl?: string;
+  /** Save every Kiro response as a replay fixture in this directory (or $KIRO_GATEWAY_RECORD_DIR) */
+  recordDir?: string;
+  /** Write a debug log (or set KIRO_GATEWAY_DEBUG=1); applies to the whole process */
+  debug?: boolean;
+  /** Debug log file (default: $KIRO_GATEWAY_DEBUG_LOG or ~/.cache/00bx-kiro-gateway/debug.log) */
+  debugLogPath?: string;
+  /** Request, event, response and error hooks */
+  hooks?: KiroHooks;
+  /** Custom fetch implementation (used for both token refresh and API calls) */
+  fetch?: typeof globalThis.fetch;
+}
@@ -1,80 +1,79 @@
 // 00bx Kiro Gateway - AWS Event Stream Parser & Streaming
 
+import { EventStreamDecoder } from "./eventstream.js";
+import type { EventStreamHeaderValue } from "./eventstream.js";
+import { repairJson } from "./schema.js";
 import { generateToolCallId } from "./utils.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface ParsedEvent {
-  type: "content" | "tool_start" | "tool_input" | "tool_stop" | "usage" | "context_usage" | "followup";
+  type:
+    | "content"
+    | "tool_start"
+    | "tool_input"
+    | "tool_stop"
+    | "usage"
+    | "context_usage"
+    | "followup"
+    | "exception";
   data: unknown;
 }
 
-export interface CollectedToolCall {
+export interface ToolStartData {
   id: string;
   name: string;
-  arguments: string;
 }
 
-// ─── AWS Binary Event Stream Protocol Parser ─────────────────────────────────
-// Each message: [total_len:4][headers_len:4][prelude_crc:4][headers][payload][msg_crc:4]
-
-function extractJsonPayloads(rawBuffer: Uint8Array): { payloads: string[]; remaining: Uint8Array } {
-  const payloads: string[] = [];
-  let offset = 0;
-
-  while (offset + 12 <= rawBuffer.length) {
-    // Read total message length (big-endian uint32)
-    const totalLen =
-      (rawBuffer[offset] << 24) |
-      (rawBuffer[offset + 1] << 16) |
-      (rawBuffer[offset + 2] << 8) |
-      rawBuffer[offset + 3];
-
-    // Sanity check: total length must be at least 16 (prelude + trailing CRC)
-    if (totalLen < 16 || totalLen > 1_000_000) {
-      // Invalid frame — skip one byte and try again
-      offset++;
-      continue;
-    }
-
-    // Check if we have the full message
-    if (offset + totalLen > rawBuffer.length) {
-      break; // Incomplete message, wait for more data
-    }
-
-    // Read headers length
-    const headersLen =
-      (rawBuffer[offset + 4] << 24) |
-      (rawBuffer[offset + 5] << 16) |
-      (rawBuffer[offset + 6] << 8) |
-      rawBuffer[offset + 7];
-
-    // Payload starts after: prelude (12 bytes) + headers
-    const payloadStart = offset + 12 + headersLen;
-    // Payload ends before: trailing CRC (4 bytes)
-    const payloadEnd = offset + totalLen - 4;
-
-    if (payloadStart < payloadEnd) {
-      const payloadBytes = rawBuffer.slice(payloadStart, payloadEnd);
-      const payloadStr = new TextDecoder("utf-8", { fatal: false }).decode(payloadBytes);
-      if (payloadStr.trim()) {
-        payloads.push(payloadStr);
-      }
-    }
+export interface ToolInputData {
+  id: string;
+  delta: string;
+}
 
-    offset += totalLen;
-  }
+export interface ToolStopData {
+  id: string;
+}
 
-  // Return remaining unprocessed bytes
-  const remaining = offset < rawBuffer.length
-    ? rawBuffer.slice(offset)
-    : new Uint8Array(0);
+/** Exception or error frame sent in place of a regular event */
+export interface ExceptionData {
+  exceptionType: string;
+  message: string;
+}
 
-  return { payloads, remaining };
+export interface CollectedToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+  /** The arguments weren't valid JSON as sent and were repaired */
+  repaired?: boolean;
+  /** Why the arguments can't be used as-is; `arguments` then holds the raw text */
+  inputErrors?: string[];
 }
 
-// ─── Event type detection from parsed JSON ───────────────────────────────────
+// ─── Event type detection ────────────────────────────────────────────────────
+
+// Dispatch by the frame's `:event-type` header
+function eventTypeFromHeader(eventType: string, data: Record<string, unknown>): ParsedEvent["type"] | null {
+  switch (eventType) {
+    case "assistantResponseEvent":
+      return "content";
+    case "toolUseEvent":
+      // One event type for the whole tool call; its phase is in the payload
+      if (data.stop === true) return "tool_stop";
+      return "input" in data ? "tool_input" : "tool_start";
+    case "meteringEvent":
+      return "usage";
+    case "contextUsageEvent":
+      return "context_usage";
+    case "followupPromptEvent":
+      return "followup";
+    default:
+      // codeReferenceEvent, messageMetadataEvent, supplementaryWebLinksEvent, ...
+      return null;
+  }
+}
 
+// Fallback for frames without an `:event-type` header — sniff the JSON keys
 function detectEventType(data: Record<string, unknown>): ParsedEvent["type"] | null {
   if ("content" in data) return "content";
   // Tool stop: has "stop" field (may also have "name" and "toolUseId")
@@ -89,10 +88,39 @@ function detectEventType(data: Record<string, unknown>): ParsedEvent["type"] | n
   return null;
 }
 
+// ─── Exception frames ────────────────────────────────────────────────────────
+
+// `exception` frames name the type in a header and carry {"message": ...};
+// `error` frames carry both code and message in headers.
+function parseExceptionFrame(
+  headers: Record<string, EventStreamHeaderValue>,
+  payload: string,
+): ExceptionData {
+  if (headers[":message-type"] === "error") {
+    return {
+      exceptionType: String(headers[":error-code"] ?? "UnknownError"),
+      message: String(headers[":error-message"] ?? payload),
+    };
+  }
+
+  let message = payload;
+  try {
+    const data = JSON.parse(payload) as Record<string, unknown>;
+    if (typeof data.message === "string") message = data.message;
+    else if (typeof data.Message === "string") message = data.Message;
+  } catch {
+    // Not JSON — use the raw payload
+  }
+  return {
+    exceptionType: String(headers[":exception-type"] ?? "UnknownException"),
+    message,
+  };
+}
+
 // ─── AWS Event Stream Parser ─────────────────────────────────────────────────
 
 export class AwsEventStreamParser {
-  private rawBuffer = new Uint8Array(0);
+  private decoder = new EventStreamDecoder();
   private lastContent: string | null = null;
   private currentToolCall: {
     id: string;
@@ -100,36 +128,42 @@ export class AwsEventStreamParser {
     arguments: string;
   } | null = null;
   toolCalls: CollectedToolCall[] = [];
+  private startedToolIds = new Set<string>();
+  private announcedToolCall = false;
   private seenUsage = false;
 
+  /** Decode a chunk of the response body. Throws EventStreamDecodeError on a corrupt frame. */
   feed(chunk: Uint8Array | string): ParsedEvent[] {
     // Convert string to bytes if needed
     const newBytes = typeof chunk === "string"
       ? new TextEncoder().encode(chunk)
       : chunk;
 
-    // Append to raw buffer
-    const merged = new Uint8Array(this.rawBuffer.length + newBytes.length);
-    merged.set(this.rawBuffer);
-    merged.set(newBytes, this.rawBuffer.length);
-    this.rawBuffer = merged;
+    const events: ParsedEvent[] = [];
+    for (const message of this.decoder.feed(newBytes)) {
+      const messageType = message.headers[":message-type"];
+      const payload = new TextDecoder("utf-8", { fatal: false }).decode(message.payload);
 
-    // Extract JSON payloads from binary frames
-    const { payloads, remaining } = extractJsonPayloads(this.rawBuffer);
-    this.rawBuffer = remaining;
+      if (messageType === "exception" || messageType === "error") {
+        events.push({ type: "exception", data: parseExceptionFrame(message.headers, payload) });
+        continue;
+      }
+      if (messageType !== undefined && messageType !== "event") continue;
+      if (!payload.trim()) continue;
 
-    // Process each payload
-    const events: ParsedEvent[] = [];
-    for (const payload of payloads) {
+      let data: Record<string, unknown>;
       try {
-        const data = JSON.parse(payload) as Record<string, unknown>;
-        const eventType = detectEventType(data);
-        if (eventType) {
-          const event = this.processEvent(data, eventType);
-          if (event) events.push(event);
-        }
+        data = JSON.parse(payload) as Record<string, unknown>;
       } catch {
-        // Skip malformed JSON
+        continue; // Skip malformed JSON
+      }
+
+      const headerType = message.headers[":event-type"];
+      const eventType = typeof headerType === "string"
+        ? eventTypeFromHeader(headerType, data)
+        : detectEventType(data);
+      if (eventType) {
+        events.push(...this.processEvent(data, eventType));
       }
     }
 
@@ -139,45 +173,45 @@ export class AwsEventStreamParser {
   private processEvent(
     data: Record<string, unknown>,
     type: ParsedEvent["type"],
-  ): ParsedEvent | null {
+  ): ParsedEvent[] {
     switch (type) {
       case "content": {
         const content = (data.content as string) || "";
-        if (data.followupPrompt) return null;
-        if (content === this.lastContent) return null; // Dedup
+        if (data.followupPrompt) return [];
+        if (content === this.lastContent) return []; // Dedup
         this.lastContent = content;
-        return { type: "content", data: content };
-      }
-      case "tool_start": {
-        // Finalize previous tool if any
-        if (this.currentToolCall) this.finalizeToolCall();
-
-        const inputData = data.input;
-        const inputStr =
-          typeof inputData === "object" && inputData !== null
-            ? JSON.stringify(inputData)
-            : inputData
-              ? String(inputData)
-              : "";
-
-        this.currentToolCall = {
-          id: (data.toolUseId as string) || generateToolCallId(),
-          name: (data.name as string) || "",
-          arguments: inputStr as string,
-        };
-
-        if (data.stop) this.finalizeToolCall();
-        return null;
+        return [{ type: "content", data: content }];
       }
+      case "tool_start":
       case "tool_input": {
-        // If no current tool call yet, start one (Kiro sometimes sends input with name on first chunk)
-        if (!this.currentToolCall && data.name) {
+        const events: ParsedEvent[] = [];
+        const toolUseId = data.toolUseId as string | undefined;
+
+        // A new toolUseId (or a named chunk with no open call) starts a new tool call.
+        // Kiro repeats name+toolUseId on every input chunk, so only react to a change.
+        const isNewCall = this.currentToolCall
+          ? !!toolUseId && toolUseId !== this.currentToolCall.id
+          : type === "tool_start" || !!data.name;
+        if (isNewCall) {
+          if (this.currentToolCall) events.push(...this.finalizeToolCall());
           this.currentToolCall = {
-            id: (data.toolUseId as string) || generateToolCallId(),
+            id: toolUseId || generateToolCallId(),
             name: (data.name as string) || "",
             arguments: "",
           };
+          // Kiro occasionally re-sends a finished call — accumulate it for dedup, but don't re-announce it
+          if (!this.startedToolIds.has(this.currentToolCall.id)) {
+            this.startedToolIds.add(this.currentToolCall.id);
+            this.announcedToolCall = true;
+            events.push({
+              type: "tool_start",
+              data: { id: this.currentToolCall.id, name: this.currentToolCall.name } satisfies ToolStartData,
+            });
+          } else {
+            this.announcedToolCall = false;
+          }
         }
+
         if (this.currentToolCall) {
           const inputData = data.input;
           const inputStr =
@@ -188,21 +222,30 @@ export class AwsEventStreamParser {
                 : inputData
                   ? String(inputData)
                   : "";
-          this.currentToolCall.arguments += inputStr;
+          if (inputStr) {
+            this.currentToolCall.arguments += inputStr;
+            if (this.announcedToolCall) {
+              events.push({
+                type: "tool_input",
+                data: { id: this.currentToolCall.id, delta: inputStr } satisfies ToolInputData,
+              });
+            }
+          }
+          if (data.stop) events.push(...this.finalizeToolCall());
         }
-        return null;
+        return events;
       }
       case "tool_stop": {
-        if (this.currentToolCall && data.stop) this.finalizeToolCall();
-        return null;
+        if (this.currentToolCall && data.stop) return this.finalizeToolCall();
+        return [];
       }
       case "usage":
         this.seenUsage = true;
-        return { type: "usage", data: data.usage ?? 0 };
+        return [{ type: "usage", data: data.usage ?? 0 }];
       case "context_usage":
-        return { type: "context_usage", data: data.contextUsagePercentage ?? 0 };
+        return [{ type: "context_usage", data: data.contextUsagePercentage ?? 0 }];
       default:
-        return null;
+        return [];
     }
   }
 
@@ -211,27 +254,43 @@ export class AwsEventStreamParser {
     return this.seenUsage && this.currentToolCall === null;
   }
 
-  private finalizeToolCall(): void {
-    if (!this.currentToolCall) return;
+  private finalizeToolCall(): ParsedEvent[] {
+    if (!this.currentToolCall) return [];
 
-    let args = this.currentToolCall.arguments;
-    if (args.trim()) {
+    const call: CollectedToolCall = {
+      id: this.currentToolCall.id,
+      name: this.currentToolCall.name,
+      arguments: "{}",
+    };
+    const raw = this.currentToolCall.arguments;
+    if (raw.trim()) {
       try {
-        const parsed = JSON.parse(args);
-        args = JSON.stringify(parsed);
-      } catch {
-        args = "{}";
+        call.arguments = JSON.stringify(JSON.parse(raw));
+      } catch (err) {
+        // Truncated or malformed: repair it, or keep the raw text so the model can be told
+        const repaired = repairJson(raw);
+        if (repaired !== null) {
+          call.arguments = repaired;
+          call.repaired = true;
+        } else {
+          call.arguments = raw;
+          call.inputErrors = [`not valid JSON (${err instanceof Error ? err.message : String(err)})`];
+        }
       }
-    } else {
-      args = "{}";
     }
 
-    this.toolCalls.push({
-      id: this.currentToolCall.id,
-      name: this.currentToolCall.name,
-      arguments: args,
-    });
+    this.toolCalls.push(call);
+    const id = this.currentToolCall.id;
+    const announced = this.announcedToolCall;
     this.currentToolCall = null;
+    this.announcedToolCall = false;
+
+    return announced ? [{ type: "tool_stop", data: { id } satisfies ToolStopData }] : [];
+  }
+
+  /** Finalize a tool call still open at end of stream, returning its tool_stop event */
+  flush(): ParsedEvent[] {
+    return this.finalizeToolCall();
   }
 
   getToolCalls(): CollectedToolCall[] {
@@ -240,10 +299,12 @@ export class AwsEventStreamParser {
   }
 
   reset(): void {
-    this.rawBuffer = new Uint8Array(0);
+    this.decoder.reset();
     this.lastContent = null;
     this.currentToolCall = null;
     this.toolCalls = [];
+    this.startedToolIds.clear();
+    this.announcedToolCall = false;
     this.seenUsage = false;
   }
 }
@@ -258,7 +319,9 @@ function deduplicateToolCalls(calls: CollectedToolCall[]): CollectedToolCall[] {
     const existing = byId.get(tc.id);
     if (!existing) {
       byId.set(tc.id, tc);
-    } else if (tc.arguments !== "{}" && (existing.arguments === "{}" || tc.arguments.length > existing.arguments.length)) {
+    } else if (existing.inputErrors && !tc.inputErrors) {
+      byId.set(tc.id, tc);
+    } else if (!tc.inputErrors && tc.arguments !== "{}" && (existing.arguments === "{}" || tc.arguments.length > existing.arguments.length)) {
       byId.set(tc.id, tc);
     }
   }
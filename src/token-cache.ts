@@ -0,0 +1,130 @@
+// 00bx Kiro Gateway - Shared Token Cache
+// Refreshed access tokens (and refresh tokens Kiro rotated) are kept in a
+// file, so every process and restart reuses them instead of refreshing again.
+
+import { createHash, randomBytes } from "node:crypto";
+import { join, dirname } from "node:path";
+import { homedir } from "node:os";
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { sleep } from "./utils.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CachedToken {
+  accessToken: string;
+  /** Access token expiry (unix ms) */
+  expiresAt: number;
+  /** Latest refresh token, if Kiro rotated it */
+  refreshToken: string;
+  profileArn: string | null;
+  updatedAt: number;
+}
+
+interface TokenCacheFile {
+  tokens: Record<string, CachedToken>;
+}
+
+// A lock older than this belongs to a crashed process
+const LOCK_STALE_MS = 30_000;
+// Give up waiting for the lock after this long and refresh anyway
+const LOCK_WAIT_MS = 10_000;
+const LOCK_POLL_MS = 50;
+
+export function getDefaultTokenCachePath(): string {
+  return process.env.KIRO_GATEWAY_TOKEN_CACHE
+    ?? join(homedir(), ".config", "00bx-kiro-gateway", "tokens.json");
+}
+
+/** Cache key for an account: a hash of the refresh token its source handed out */
+export function tokenCacheKey(sourceRefreshToken: string): string {
+  return createHash("sha256").update(sourceRefreshToken).digest("hex").slice(0, 32);
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────────────
+
+export class KiroTokenCache {
+  constructor(readonly path: string = getDefaultTokenCachePath()) {}
+
+  private get lockPath(): string {
+    return `${this.path}.lock`;
+  }
+
+  private readFile(): TokenCacheFile {
+    try {
+      if (!existsSync(this.path)) return { tokens: {} };
+      const data = JSON.parse(readFileSync(this.path, "utf-8")) as TokenCacheFile;
+      return data && typeof data.tokens === "object" ? data : { tokens: {} };
+    } catch {
+      // Corrupt or half-written by an old version — start over
+      return { tokens: {} };
+    }
+  }
+
+  get(key: string): CachedToken | null {
+    return this.readFile().tokens[key] ?? null;
+  }
+
+  /** Write via a temp file + rename, so readers never see a partial file */
+  set(key: string, token: CachedToken): void {
+    const data = this.readFile();
+    data.tokens[key] = token;
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+    try {
+      writeFileSync(tmp, JSON.stringify(data, null, 2), { mode: 0o600 });
+      renameSync(tmp, this.path);
+    } catch (err) {
+      rmSync(tmp, { force: true });
+      throw err;
+    }
+  }
+
+  private tryLock(): boolean {
+    try {
+      mkdirSync(dirname(this.lockPath), { recursive: true });
+      const fd = openSync(this.lockPath, "wx");
+      writeFileSync(fd, String(process.pid));
+      closeSync(fd);
+      return true;
+    } catch {
+      // Held by someone else; break it if its owner died mid-refresh
+      try {
+        if (Date.now() - statSync(this.lockPath).mtimeMs > LOCK_STALE_MS) {
+          rmSync(this.lockPath, { force: true });
+        }
+      } catch {
+        // Released between our open and stat
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Run `fn` while holding the cache's lock file, so only one process
+   * refreshes at a time. If the lock can't be had within a few seconds
+   * `fn` runs anyway — a duplicate refresh beats a stuck request.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    let locked = this.tryLock();
+    while (!locked && Date.now() < deadline) {
+      await sleep(LOCK_POLL_MS);
+      locked = this.tryLock();
+    }
+    try {
+      return await fn();
+    } finally {
+      if (locked) rmSync(this.lockPath, { force: true });
+    }
+  }
+}
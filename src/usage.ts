@@ -0,0 +1,80 @@
+// 00bx Kiro Gateway - Token Usage Estimation
+// Kiro reports credits and a context-window percentage, not token counts.
+// We turn those into AI SDK usage numbers so cost/context meters work.
+
+import type { LanguageModelV2Usage, SharedV2ProviderMetadata } from "@ai-sdk/provider";
+import { CHARS_PER_TOKEN, getModelContextWindow } from "./config.js";
+import type { DiscoveredModelLookup } from "./config.js";
+import type { ParsedEvent } from "./streaming.js";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface KiroUsageData {
+  credits: number | null;
+  contextUsagePercentage: number | null;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function createUsageData(): KiroUsageData {
+  return { credits: null, contextUsagePercentage: null };
+}
+
+/** Record a `usage` / `context_usage` parser event. Returns true if the event was consumed. */
+export function recordUsageEvent(usage: KiroUsageData, event: ParsedEvent): boolean {
+  if (event.type === "usage") {
+    const credits = Number(event.data);
+    if (Number.isFinite(credits)) usage.credits = (usage.credits ?? 0) + credits;
+    return true;
+  }
+  if (event.type === "context_usage") {
+    const pct = Number(event.data);
+    if (Number.isFinite(pct)) usage.contextUsagePercentage = pct;
+    return true;
+  }
+  return false;
+}
+
+// ─── Build AI SDK usage ──────────────────────────────────────────────────────
+
+export function buildUsage(
+  modelId: string,
+  usage: KiroUsageData,
+  outputText: string,
+  requestBody: string,
+  modelAliases?: Record<string, string>,
+  models?: DiscoveredModelLookup,
+): { usage: LanguageModelV2Usage; providerMetadata: SharedV2ProviderMetadata } {
+  const outputTokens = estimateTokens(outputText);
+
+  // contextUsagePercentage covers the whole conversation including this reply
+  let inputTokens: number;
+  if (usage.contextUsagePercentage !== null) {
+    const contextTokens = Math.round(
+      (usage.contextUsagePercentage / 100) * getModelContextWindow(modelId, modelAliases, models),
+    );
+    inputTokens = Math.max(contextTokens - outputTokens, 0);
+  } else {
+    // No percentage received — fall back to the size of what we sent
+    inputTokens = estimateTokens(requestBody);
+  }
+
+  return {
+    usage: {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+    },
+    providerMetadata: {
+      kiro: {
+        credits: usage.credits,
+        contextUsagePercentage: usage.contextUsagePercentage,
+      },
+    },
+  };
+}
@@ -32,6 +32,59 @@ export function generateConversationId(): string {
   return randomUUID();
 }
 
+/** A UUID-shaped ID that is always the same for the same seed */
+export function deriveConversationId(seed: string): string {
+  const hex = createHash("sha256").update(seed).digest("hex");
+  // Version 5 / RFC 4122 variant bits, like a name-based UUID
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
 export function generateToolCallId(): string {
   return `call_${randomUUID().replace(/-/g, "").slice(0, 8)}`;
 }
+
+// ─── Cancellation helpers ────────────────────────────────────────────────────
+
+export function createAbortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason as unknown;
+  if (reason instanceof Error && reason.name === "AbortError") return reason;
+  const err = new Error("The operation was aborted", { cause: reason });
+  err.name = "AbortError";
+  return err;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError(signal);
+}
+
+/** Resolve/reject with `promise`, or reject with an AbortError as soon as `signal` aborts */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    );
+  });
+}
+
+/** setTimeout as a promise that rejects early with an AbortError */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return abortable(
+    new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal,
+  ).finally(() => clearTimeout(timer));
+}
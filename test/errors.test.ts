@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { APICallError } from "@ai-sdk/provider";
+import { classifyKiroError, getKiroErrorReason } from "../src/index.js";
+import type { KiroErrorReason } from "../src/index.js";
+import {
+  errorFixture,
+  exceptionFrame,
+  readParts,
+  rejectionOf,
+  replayProvider,
+  streamFixture,
+  text,
+  userPrompt,
+} from "./helpers.js";
+
+describe("classifyKiroError", () => {
+  it.each<[number | undefined, string, KiroErrorReason]>([
+    [400, '{"message":"Input is too long","reason":"CONTENT_LENGTH_EXCEEDS_THRESHOLD"}', "context_overflow"],
+    [400, '{"message":"Invalid model. INVALID_MODEL_ID"}', "model_unavailable"],
+    [429, '{"message":"Too many requests"}', "throttled"],
+    [402, '{"message":"MONTHLY_REQUEST_COUNT reached"}', "quota"],
+    [403, '{"message":"The bearer token included in the request is invalid"}', "auth"],
+    [503, "Service Unavailable", "server_error"],
+    [400, '{"message":"Improperly formed request"}', "invalid_request"],
+    [undefined, "something odd", "unknown"],
+  ])("status %s %s → %s", (status, body, reason) => {
+    expect(classifyKiroError(status, body)).toBe(reason);
+  });
+});
+
+describe("replayed errors", () => {
+  it("turns an HTTP error into a classified APICallError", async () => {
+    const model = replayProvider([
+      errorFixture(400, { message: "Input is too long", reason: "CONTENT_LENGTH_EXCEEDS_THRESHOLD" }),
+    ]).languageModel("claude-sonnet-4-5");
+    const error = await rejectionOf(model.doGenerate({ prompt: userPrompt("hi") }));
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(getKiroErrorReason(error)).toBe("context_overflow");
+    expect((error as APICallError).isRetryable).toBe(false);
+    expect((error as APICallError).statusCode).toBe(400);
+  });
+
+  it("marks throttling as retryable", async () => {
+    const model = replayProvider([errorFixture(429, { message: "Rate exceeded" })]).languageModel("claude-sonnet-4-5");
+    const error = await rejectionOf(model.doGenerate({ prompt: userPrompt("hi") }));
+
+    expect(getKiroErrorReason(error)).toBe("throttled");
+    expect((error as APICallError).isRetryable).toBe(true);
+  });
+
+  it("surfaces a mid-stream exception frame as an error part", async () => {
+    const model = replayProvider([
+      streamFixture(text("partial"), exceptionFrame("ThrottlingException", "Too many requests")),
+    ]).languageModel("claude-sonnet-4-5");
+    const parts = await readParts((await model.doStream({ prompt: userPrompt("hi") })).stream);
+
+    const errorPart = parts.find((p) => p.type === "error");
+    expect(errorPart).toBeDefined();
+    expect(getKiroErrorReason(errorPart?.type === "error" ? errorPart.error : undefined)).toBe("throttled");
+    expect(parts.some((p) => p.type === "finish")).toBe(false);
+  });
+
+  it("rejects doGenerate on a mid-stream exception", async () => {
+    const model = replayProvider([
+      streamFixture(exceptionFrame("ValidationException", "Invalid model. INVALID_MODEL_ID")),
+    ]).languageModel("claude-sonnet-4-5");
+    const error = await rejectionOf(model.doGenerate({ prompt: userPrompt("hi") }));
+    expect(getKiroErrorReason(error)).toBe("model_unavailable");
+  });
+});
@@ -0,0 +1,97 @@
+// Shared fixtures for the replay-driven tests: event-stream frames built in
+// memory and a provider that answers from them instead of the network.
+
+import type { LanguageModelV2CallOptions, LanguageModelV2StreamPart } from "@ai-sdk/provider";
+import { createKiroProvider, createReplayFetch, encodeEventStreamMessage } from "../src/index.js";
+import type { KiroFixture, KiroProviderSettings, ReplayOptions } from "../src/index.js";
+
+export function eventFrame(eventType: string, payload: unknown): Uint8Array {
+  return encodeEventStreamMessage(
+    { ":message-type": "event", ":event-type": eventType, ":content-type": "application/json" },
+    JSON.stringify(payload),
+  );
+}
+
+export function exceptionFrame(exceptionType: string, message: string): Uint8Array {
+  return encodeEventStreamMessage(
+    { ":message-type": "exception", ":exception-type": exceptionType, ":content-type": "application/json" },
+    JSON.stringify({ message }),
+  );
+}
+
+export const text = (content: string) => eventFrame("assistantResponseEvent", { content });
+export const usage = (credits = 0.01) =>
+  eventFrame("meteringEvent", { unit: "credit", unitPlural: "credits", usage: credits });
+
+/** A tool call whose input arrives in `chunks` fragments */
+export function toolFrames(name: string, toolUseId: string, input: string, chunks = 1): Uint8Array[] {
+  const size = Math.ceil(input.length / chunks) || 1;
+  const frames: Uint8Array[] = [];
+  for (let i = 0; i < input.length; i += size) {
+    frames.push(eventFrame("toolUseEvent", { name, toolUseId, input: input.slice(i, i + size) }));
+  }
+  frames.push(eventFrame("toolUseEvent", { name, toolUseId, stop: true }));
+  return frames;
+}
+
+export function streamFixture(...frames: Array<Uint8Array | Uint8Array[]>): KiroFixture {
+  return {
+    version: 1,
+    recordedAt: new Date(0).toISOString(),
+    request: { url: "https://kiro.test/generateAssistantResponse", payload: null },
+    response: {
+      status: 200,
+      headers: { "content-type": "application/vnd.amazon.eventstream", "x-amzn-requestid": "replay-1" },
+      body: Buffer.concat(frames.flat()).toString("base64"),
+    },
+  };
+}
+
+export function errorFixture(status: number, body: unknown, headers: Record<string, string> = {}): KiroFixture {
+  return {
+    version: 1,
+    recordedAt: new Date(0).toISOString(),
+    request: { url: "https://kiro.test/generateAssistantResponse", payload: null },
+    response: {
+      status,
+      headers: { "content-type": "application/json", "x-amzn-requestid": "replay-err", ...headers },
+      body: Buffer.from(typeof body === "string" ? body : JSON.stringify(body)).toString("base64"),
+    },
+  };
+}
+
+export function replayProvider(
+  fixtures: KiroFixture[],
+  settings: KiroProviderSettings = {},
+  replay: ReplayOptions = {},
+) {
+  return createKiroProvider({
+    credentials: { refreshToken: "replay-refresh-token" },
+    fetch: createReplayFetch(fixtures, replay),
+    discoverModels: false,
+    tokenCache: false,
+    rateLimit: false,
+    retry: { maxRetries: 1 },
+    ...settings,
+  });
+}
+
+export function userPrompt(content: string): LanguageModelV2CallOptions["prompt"] {
+  return [{ role: "user", content: [{ type: "text", text: content }] }];
+}
+
+export async function readParts(stream: ReadableStream<LanguageModelV2StreamPart>): Promise<LanguageModelV2StreamPart[]> {
+  const parts: LanguageModelV2StreamPart[] = [];
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV2StreamPart>) parts.push(part);
+  return parts;
+}
+
+/** The error `promise` rejects with; fails the test if it resolves */
+export async function rejectionOf(promise: PromiseLike<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (err) {
+    return err;
+  }
+  throw new Error("Expected the promise to reject");
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { redact } from "../src/index.js";
+import { enableDebugLog, isDebugLogEnabled, registerSecret } from "../src/logger.js";
+
+describe("redact", () => {
+  it("scrubs a token registered before the debug log was turned on", () => {
+    expect(isDebugLogEnabled()).toBe(false);
+    registerSecret("tok-registered-early-1234");
+    enableDebugLog({ path: "/dev/null" });
+
+    expect(redact({ body: "bad token tok-registered-early-1234 here" }))
+      .toEqual({ body: "bad token <redacted> here" });
+  });
+});
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createKiroProvider, MockKiroServer } from "../src/index.js";
+import type { KiroProviderSettings } from "../src/index.js";
+import { userPrompt } from "./helpers.js";
+
+describe("model discovery", () => {
+  let dir: string;
+  const servers: MockKiroServer[] = [];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "kiro-models-"));
+  });
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map((s) => s.close()));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function providerWith(modelId: string, settings: KiroProviderSettings = {}) {
+    const server = new MockKiroServer({ models: [{ modelId, tokenLimits: { maxInputTokens: 500_000 } }] });
+    servers.push(server);
+    await server.start();
+    const provider = createKiroProvider({
+      ...server.providerSettings(),
+      modelCachePath: join(dir, `${modelId}.json`),
+      rateLimit: false,
+      ...settings,
+    });
+    return { server, provider };
+  }
+
+  it("keeps each provider's discovered models to itself", async () => {
+    const a = await providerWith("claude-opus-9.9");
+    const b = await providerWith("claude-haiku-9.9");
+
+    const idsA = (await a.provider.listModels()).map((m) => m.id);
+    const idsB = (await b.provider.listModels()).map((m) => m.id);
+    expect(idsA).toContain("claude-opus-9-9");
+    expect(idsA).not.toContain("claude-haiku-9-9");
+    expect(idsB).toContain("claude-haiku-9-9");
+    expect(idsB).not.toContain("claude-opus-9-9");
+
+    // The other provider's dashed alias is unknown here and isn't resolved to a Kiro ID
+    await expect(b.provider.languageModel("claude-opus-9-9").doGenerate({ prompt: userPrompt("hi") }))
+      .rejects.toThrow(/Unknown Kiro model/);
+    await a.provider.languageModel("claude-opus-9-9").doGenerate({ prompt: userPrompt("hi") });
+    const sent = a.server.requests.find((r) => r.path === "/generateAssistantResponse");
+    expect(sent?.body).toMatchObject({
+      conversationState: { currentMessage: { userInputMessage: { modelId: "claude-opus-9.9" } } },
+    });
+  });
+
+  it("doesn't fail other callers when one aborts a shared lookup", async () => {
+    let releaseList!: () => void;
+    const listed = new Promise<void>((resolve) => {
+      releaseList = resolve;
+    });
+    const { provider } = await providerWith("claude-opus-9.9", {
+      fetch: async (input, init) => {
+        if (String(input).includes("/ListAvailableModels")) await listed;
+        return fetch(input, init);
+      },
+    });
+
+    const controller = new AbortController();
+    const aborted = provider.listModels({ abortSignal: controller.signal });
+    const other = provider.listModels();
+    controller.abort();
+    releaseList();
+
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+    expect((await other).map((m) => m.id)).toContain("claude-opus-9-9");
+  });
+});
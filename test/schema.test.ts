@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { repairJson } from "../src/schema.js";
+
+describe("repairJson", () => {
+  it.each([
+    ['{"a":1,"b', '{"a":1}'],
+    ['{"a":1,"b"', '{"a":1}'],
+    ['{"a":1,"b":', '{"a":1}'],
+    ['{"a":1, "b" : ', '{"a":1}'],
+    ['{"b', "{}"],
+    ['{"a":{"b":', '{"a":{}}'],
+    ['{"a":[1,{"b', '{"a":[1,{}]}'],
+    ['{"a":"x', '{"a":"x"}'],
+    ['{"a":"x\\', '{"a":"x"}'],
+    ['{"a":[1,2,', '{"a":[1,2]}'],
+    ['```json\n{"a":1,}\n```', '{"a":1}'],
+  ])("repairs %s", (input, expected) => {
+    expect(repairJson(input)).toBe(expected);
+  });
+
+  it("gives up on mismatched brackets", () => {
+    expect(repairJson('{"a":[1}')).toBeNull();
+  });
+});
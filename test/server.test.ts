@@ -0,0 +1,103 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { KiroAuthManager, MockKiroServer, startGatewayServer } from "../src/index.js";
+
+const PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+describe("gateway server", () => {
+  const mock = new MockKiroServer();
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    await mock.start();
+    const settings = mock.providerSettings();
+    const auth = new KiroAuthManager({ credentials: settings.credentials, refreshUrl: settings.refreshUrl, tokenCache: false });
+    server = await startGatewayServer({ port: 0, auth, apiHost: mock.url });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(async () => {
+    server.close();
+    await mock.close();
+  });
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${base}${path}`, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) });
+
+  const openAIImage = (part: Record<string, unknown>) => ({
+    model: "claude-sonnet-4-5",
+    messages: [{ role: "user", content: [{ type: "text", text: "look" }, { type: "image_url", ...part }] }],
+  });
+  const anthropicImage = (source: unknown) => ({
+    model: "claude-sonnet-4-5",
+    max_tokens: 100,
+    messages: [{ role: "user", content: [{ type: "text", text: "look" }, { type: "image", source }] }],
+  });
+
+  describe("images", () => {
+    it.each([
+      ["a missing image_url", {}],
+      ["a malformed URL", { image_url: { url: "not a url" } }],
+      ["a remote URL", { image_url: { url: "https://example.com/cat.png" } }],
+    ])("answers 400 for %s (OpenAI)", async (_, part) => {
+      const res = await post("/v1/chat/completions", openAIImage(part));
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: { type: string } }).error.type).toBe("invalid_request_error");
+    });
+
+    it.each([
+      ["a missing source", undefined],
+      ["a remote URL source", { type: "url", url: "https://example.com/cat.png" }],
+    ])("answers 400 for %s (Anthropic)", async (_, source) => {
+      const res = await post("/v1/messages", anthropicImage(source));
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: { type: string } }).error.type).toBe("invalid_request_error");
+    });
+
+    it("sends inline images to Kiro", async () => {
+      const openai = await post("/v1/chat/completions", openAIImage({ image_url: { url: `data:image/png;base64,${PNG}` } }));
+      const anthropic = await post("/v1/messages", anthropicImage({ type: "base64", media_type: "image/png", data: PNG }));
+      expect([openai.status, anthropic.status]).toEqual([200, 200]);
+
+      const sent = mock.requests.filter((r) => r.path === "/generateAssistantResponse").slice(-2);
+      for (const request of sent) {
+        expect(request.body).toMatchObject({
+          conversationState: { currentMessage: { userInputMessage: { images: [{ format: "png" }] } } },
+        });
+      }
+    });
+
+    it("lists dropped content in X-Kiro-Warnings", async () => {
+      const res = await post("/v1/messages", anthropicImage({ type: "base64", media_type: "image/tiff", data: "AAAA" }));
+      expect(res.status).toBe(200);
+      expect(res.headers.get("x-kiro-warnings")).toMatch(/image\/tiff/);
+    });
+  });
+
+  describe("OpenAI streaming", () => {
+    // JSON payloads of the SSE data lines, without the final [DONE]
+    const events = async (res: Response) =>
+      (await res.text())
+        .split("\n")
+        .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+        .map((line) => JSON.parse(line.slice(6)) as Record<string, unknown>);
+    const streamed = { model: "claude-sonnet-4-5", stream: true, stream_options: { include_usage: true }, messages: [{ role: "user", content: "hi" }] };
+
+    it("ends with a usage chunk when include_usage is set", async () => {
+      const chunks = await events(await post("/v1/chat/completions", streamed));
+      expect(chunks.at(-1)).toMatchObject({ choices: [], usage: { total_tokens: expect.any(Number) } });
+    });
+
+    it("reports a mid-stream throttle as rate_limit_error, after the usage chunk", async () => {
+      mock.enqueue({
+        type: "stream",
+        events: [{ type: "text", text: "par" }, { type: "exception", exceptionType: "ThrottlingException", message: "Too many requests" }],
+      });
+      const chunks = await events(await post("/v1/chat/completions", streamed));
+
+      expect(chunks.at(-2)).toMatchObject({ choices: [], usage: { completion_tokens: expect.any(Number) } });
+      expect(chunks.at(-1)).toMatchObject({ error: { type: "rate_limit_error", code: "throttled" } });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { getEventListeners } from "node:events";
+import { describe, expect, it } from "vitest";
+import { getKiroErrorReason } from "../src/index.js";
+import type { ReplayChunking } from "../src/index.js";
+import { readKiroEvents } from "../src/client.js";
+import { AwsEventStreamParser } from "../src/streaming.js";
+import { readParts, rejectionOf, replayProvider, streamFixture, text, usage, userPrompt } from "./helpers.js";
+
+const fixture = () => streamFixture(text("Hello, "), text("world."), usage(0.25));
+
+describe("streaming replay", () => {
+  it.each<ReplayChunking>(["whole", "frame", 1, 7])("decodes a reply split as %s", async (chunking) => {
+    const model = replayProvider([fixture()], {}, { chunking }).languageModel("claude-sonnet-4-5");
+    const parts = await readParts((await model.doStream({ prompt: userPrompt("hi") })).stream);
+
+    expect(parts[0].type).toBe("stream-start");
+    const deltas = parts.flatMap((p) => (p.type === "text-delta" ? [p.delta] : []));
+    expect(deltas.join("")).toBe("Hello, world.");
+
+    const finish = parts.at(-1);
+    expect(finish?.type).toBe("finish");
+    if (finish?.type !== "finish") return;
+    expect(finish.finishReason).toBe("stop");
+    expect(finish.providerMetadata?.kiro.credits).toBe(0.25);
+  });
+
+  it("collects the same reply through doGenerate", async () => {
+    const model = replayProvider([fixture()]).languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("hi") });
+
+    expect(result.content).toEqual([{ type: "text", text: "Hello, world." }]);
+    expect(result.finishReason).toBe("stop");
+  });
+
+  it("drops a repeated content frame", async () => {
+    const model = replayProvider([streamFixture(text("same"), text("same"), usage())]).languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("hi") });
+    expect(result.content).toEqual([{ type: "text", text: "same" }]);
+  });
+
+  it("stops at a stop sequence", async () => {
+    const model = replayProvider([fixture()]).languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("hi"), stopSequences: ["world"] });
+    expect(result.content).toEqual([{ type: "text", text: "Hello, " }]);
+  });
+
+  it("leaves no listeners on a reused abort signal", async () => {
+    const model = replayProvider([fixture(), fixture(), fixture()]).languageModel("claude-sonnet-4-5");
+    const abortSignal = new AbortController().signal;
+    await model.doGenerate({ prompt: userPrompt("hi"), abortSignal });
+    await readParts((await model.doStream({ prompt: userPrompt("hi"), abortSignal })).stream);
+    await model.doGenerate({ prompt: userPrompt("hi"), abortSignal });
+
+    expect(getEventListeners(abortSignal, "abort")).toHaveLength(0);
+  });
+});
+
+describe("readKiroEvents failures", () => {
+  const body = (chunks: Uint8Array[], failWith?: Error) => {
+    let index = 0;
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (index < chunks.length) controller.enqueue(chunks[index++]);
+        else if (failWith) controller.error(failWith);
+        else controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    return { response: new Response(stream), isCancelled: () => cancelled };
+  };
+
+  it("rethrows an error from onEvent and cancels the body", async () => {
+    const { response, isCancelled } = body([text("one"), text("two")]);
+    const failure = new Error("consumer went away");
+    const read = readKiroEvents(response, new AwsEventStreamParser(), () => {
+      throw failure;
+    });
+
+    await expect(read).rejects.toBe(failure);
+    expect(isCancelled()).toBe(true);
+  });
+
+  it("turns a dropped connection into a retryable network error", async () => {
+    const { response } = body([text("partial")], new TypeError("terminated"));
+    const seen: unknown[] = [];
+    const error = await rejectionOf(readKiroEvents(response, new AwsEventStreamParser(), (event) => {
+      seen.push(event.data);
+    }));
+
+    expect(seen).toEqual(["partial"]);
+    expect(getKiroErrorReason(error)).toBe("network");
+  });
+
+});
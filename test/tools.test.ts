@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { LanguageModelV2FunctionTool } from "@ai-sdk/provider";
+import { readParts, replayProvider, streamFixture, text, toolFrames, usage, userPrompt } from "./helpers.js";
+
+const writeTool: LanguageModelV2FunctionTool = {
+  type: "function",
+  name: "write",
+  inputSchema: {
+    type: "object",
+    properties: { path: { type: "string" }, n: { type: "integer" } },
+    required: ["path"],
+  },
+};
+
+describe("tool calls", () => {
+  it("streams tool input incrementally and ends with the full call", async () => {
+    const input = JSON.stringify({ path: "src/a.ts", n: 2 });
+    const model = replayProvider(
+      [streamFixture(toolFrames("write", "tool-1", input, 4), usage())],
+      {},
+      { chunking: 3 },
+    ).languageModel("claude-sonnet-4-5");
+    const parts = await readParts((await model.doStream({ prompt: userPrompt("go"), tools: [writeTool] })).stream);
+
+    const types = parts.map((p) => p.type);
+    expect(types).toContain("tool-input-start");
+    expect(types.indexOf("tool-input-end")).toBeLessThan(types.indexOf("tool-call"));
+    const deltas = parts.flatMap((p) => (p.type === "tool-input-delta" ? [p.delta] : []));
+    expect(deltas.join("")).toBe(input);
+
+    const call = parts.find((p) => p.type === "tool-call");
+    expect(call).toMatchObject({ toolCallId: "tool-1", toolName: "write", input });
+    expect(call && "providerMetadata" in call ? call.providerMetadata : undefined).toBeUndefined();
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "tool-calls" });
+  });
+
+  it("repairs truncated arguments and flags them", async () => {
+    const model = replayProvider([streamFixture(toolFrames("write", "tool-1", '{"path": "a.ts", "n": 2,'), usage())])
+      .languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("go"), tools: [writeTool] });
+
+    expect(result.content).toEqual([{
+      type: "tool-call",
+      toolCallId: "tool-1",
+      toolName: "write",
+      input: '{"path":"a.ts","n":2}',
+      providerMetadata: { kiro: { repairedInput: true } },
+    }]);
+  });
+
+  it("reports schema violations", async () => {
+    const model = replayProvider([streamFixture(toolFrames("write", "tool-1", '{"n": "x"}'), usage())])
+      .languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("go"), tools: [writeTool] });
+
+    expect(result.content[0]).toMatchObject({
+      providerMetadata: {
+        kiro: { repairedInput: false, inputErrors: ["path: required property is missing", "n: expected integer, got string"] },
+      },
+    });
+  });
+
+  it("keeps unrepairable arguments as sent", async () => {
+    const model = replayProvider([streamFixture(toolFrames("write", "tool-1", '{"path": tru'), usage())])
+      .languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("go"), tools: [writeTool] });
+
+    expect(result.content[0]).toMatchObject({ input: '{"path": tru' });
+    const metadata = result.content[0].type === "tool-call" ? result.content[0].providerMetadata : undefined;
+    expect(metadata?.kiro.inputErrors).toEqual([expect.stringMatching(/^not valid JSON/)]);
+  });
+
+  it("prefers a valid copy of a re-sent call over a broken one", async () => {
+    const valid = '{"path":"a.ts"}';
+    const model = replayProvider([
+      streamFixture(toolFrames("write", "tool-1", valid), toolFrames("write", "tool-1", '{"path": "a.ts", "oops": tru'), usage()),
+    ]).languageModel("claude-sonnet-4-5");
+    const result = await model.doGenerate({ prompt: userPrompt("go"), tools: [writeTool] });
+
+    expect(result.content).toHaveLength(1);
+    expect(result.content[0]).toMatchObject({ input: valid });
+  });
+});
+
+describe("required toolChoice while streaming", () => {
+  const options = (prompt = "go") => ({
+    prompt: userPrompt(prompt),
+    tools: [writeTool],
+    toolChoice: { type: "required" as const },
+  });
+
+  it("drops a text-only first reply and warns in stream-start when the re-prompt doesn't call a tool either", async () => {
+    const model = replayProvider([
+      streamFixture(text("First answer."), usage()),
+      streamFixture(text("Second answer."), usage()),
+    ]).languageModel("claude-sonnet-4-5");
+    const parts = await readParts((await model.doStream(options())).stream);
+
+    expect(parts[0].type).toBe("stream-start");
+    const warnings = parts[0].type === "stream-start" ? parts[0].warnings : [];
+    expect(warnings).toContainEqual(expect.objectContaining({ message: expect.stringContaining("toolChoice") }));
+    const deltas = parts.flatMap((p) => (p.type === "text-delta" ? [p.delta] : []));
+    expect(deltas).toEqual(["Second answer."]);
+    expect(parts.filter((p) => p.type === "stream-start")).toHaveLength(1);
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "stop" });
+  });
+
+  it("streams only the re-prompted reply when it calls a tool", async () => {
+    const model = replayProvider([
+      streamFixture(text("I'd rather talk."), usage()),
+      streamFixture(toolFrames("write", "tool-1", '{"path":"a.ts"}'), usage()),
+    ]).languageModel("claude-sonnet-4-5");
+    const parts = await readParts((await model.doStream(options())).stream);
+
+    expect(parts[0]).toEqual({ type: "stream-start", warnings: [] });
+    expect(parts.some((p) => p.type === "text-delta")).toBe(false);
+    expect(parts.find((p) => p.type === "tool-call")).toMatchObject({ toolName: "write", input: '{"path":"a.ts"}' });
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "tool-calls" });
+  });
+
+  it("streams a first reply that calls a tool without re-prompting", async () => {
+    const model = replayProvider([
+      streamFixture(text("Writing it."), toolFrames("write", "tool-1", '{"path":"a.ts"}', 3), usage()),
+    ]).languageModel("claude-sonnet-4-5");
+    const parts = await readParts((await model.doStream(options())).stream);
+
+    expect(parts[0]).toEqual({ type: "stream-start", warnings: [] });
+    expect(parts.flatMap((p) => (p.type === "text-delta" ? [p.delta] : []))).toEqual(["Writing it."]);
+    expect(parts.filter((p) => p.type === "tool-input-delta")).toHaveLength(3);
+    expect(parts.at(-1)).toMatchObject({ type: "finish", finishReason: "tool-calls" });
+  });
+});